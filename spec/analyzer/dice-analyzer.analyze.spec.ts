@@ -0,0 +1,190 @@
+import { DiceAnalyzer } from '../../src/analyzer';
+import { ExpressionNode } from '../../src/ast';
+import { DiceParser } from '../../src/parser';
+
+function analyze(input: string, analyzer: DiceAnalyzer = new DiceAnalyzer()) {
+  return analyzer.analyze(new DiceParser(input).parse().root as ExpressionNode);
+}
+
+describe('DiceAnalyzer', () => {
+  describe('analyze', () => {
+    it('analyzes a constant expression (2 * 3 + 1).', () => {
+      const res = analyze('2 * 3 + 1');
+      expect(res.errors.length).toBe(0);
+      expect(res.distribution.values()).toEqual([7]);
+      expect(res.variance).toBe(0);
+    });
+    it('analyzes simple dice (2d6 + 1).', () => {
+      const res = analyze('2d6 + 1');
+      expect(res.errors.length).toBe(0);
+      expect(res.min).toBe(3);
+      expect(res.max).toBe(13);
+      expect(res.mean).toBeCloseTo(8);
+      expect(res.variance).toBeCloseTo(35 / 6);
+      expect(res.probability(8)).toBeCloseTo(6 / 36);
+      expect(res.percentile(50)).toBe(8);
+    });
+    it('analyzes fate dice (4dF).', () => {
+      const res = analyze('4dF');
+      expect(res.errors.length).toBe(0);
+      expect(res.min).toBe(-4);
+      expect(res.max).toBe(4);
+      expect(res.probability(0)).toBeCloseTo(19 / 81);
+    });
+    it('analyzes dice with custom faces (2d{0, 0, 1, 2} + 1dBoost).', () => {
+      const res = analyze('2d{0, 0, 1, 2} + 1dBoost', new DiceAnalyzer({ customDice: { Boost: [1, 1, 2] } }));
+      expect(res.errors.length).toBe(0);
+      expect(res.min).toBe(1);
+      expect(res.max).toBe(6);
+      expect(res.probability(1)).toBeCloseTo(1 / 4 * 2 / 3);
+      expect(res.mean).toBeCloseTo(1.5 + 4 / 3);
+    });
+    it('reports custom dice that are not registered (1dBoost).', () => {
+      const res = analyze('1dBoost');
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Unknown dice: Boost.');
+    });
+    it('analyzes percentile dice with bonus and penalty dice (1d%, 1d%b1, 1d00p1).', () => {
+      expect(analyze('1d%').mean).toBeCloseTo(50.5);
+      const bonus = analyze('1d%b1');
+      expect(bonus.errors.length).toBe(0);
+      expect(bonus.mean).toBeCloseTo(34);
+      expect(bonus.probability(100)).toBeCloseTo(0.1 * 0.01);
+      expect(analyze('1d00p1').mean).toBeCloseTo(67);
+    });
+    it('analyzes a variable number of dice ((1d2)d6).', () => {
+      const res = analyze('(1d2)d6');
+      expect(res.errors.length).toBe(0);
+      expect(res.min).toBe(1);
+      expect(res.max).toBe(12);
+      expect(res.mean).toBeCloseTo(5.25);
+    });
+    it('analyzes keep highest (4d6kh3).', () => {
+      const res = analyze('4d6kh3');
+      expect(res.errors.length).toBe(0);
+      expect(res.min).toBe(3);
+      expect(res.max).toBe(18);
+      expect(res.mean).toBeCloseTo(15869 / 1296);
+      expect(res.probability(18)).toBeCloseTo(21 / 1296);
+      expect(res.probability(3)).toBeCloseTo(1 / 1296);
+    });
+    it('analyzes keep lowest and drop highest the same way (2d20kl, 2d20dh).', () => {
+      const keep = analyze('2d20kl');
+      const drop = analyze('2d20dh');
+      expect(keep.mean).toBeCloseTo(7.175);
+      expect(drop.mean).toBeCloseTo(7.175);
+    });
+    it('analyzes exploding dice up to the depth cap (1d6!).', () => {
+      expect(analyze('1d6!').mean).toBeCloseTo(4.2);
+      const capped = analyze('1d6!', new DiceAnalyzer({ maxExplodeDepth: 1 }));
+      expect(capped.max).toBe(12);
+      expect(capped.probability(12)).toBeCloseTo(1 / 36);
+    });
+    it('analyzes compounding dice as a single die (4d6!!kh1).', () => {
+      const res = analyze('4d6!!kh1', new DiceAnalyzer({ maxExplodeDepth: 1 }));
+      expect(res.errors.length).toBe(0);
+      expect(res.max).toBe(12);
+      expect(res.probability(1)).toBeCloseTo(1 / 1296);
+    });
+    it('keeps and drops exploded dice along with the dice they exploded from (1d6!kl1, 2d6!dl1).', () => {
+      const analyzer = new DiceAnalyzer({ maxExplodeDepth: 1 });
+      const keep = analyze('1d6!kl1', analyzer);
+      expect(keep.errors.length).toBe(0);
+      expect(keep.probability(1)).toBeCloseTo(7 / 36);
+      expect(keep.mean).toBeCloseTo(2.5 + 3.5 / 6);
+      const drop = analyze('2d6!dl1', analyzer);
+      expect(drop.errors.length).toBe(0);
+      expect(drop.max).toBe(18);
+      expect(drop.probability(18)).toBeCloseTo(11 / 1296);
+    });
+    it('analyzes penetrating dice (1d6!p).', () => {
+      const res = analyze('1d6!p', new DiceAnalyzer({ maxExplodeDepth: 1 }));
+      expect(res.max).toBe(11);
+      expect(res.probability(6)).toBeCloseTo(1 / 36);
+    });
+    it('analyzes rerolls (1d6r, 1d6ro).', () => {
+      expect(analyze('1d6r').min).toBe(2);
+      expect(analyze('1d6r').mean).toBeCloseTo(4);
+      expect(analyze('1d6ro').mean).toBeCloseTo(3.5 + 2.5 / 6);
+    });
+    it('analyzes successes (4d6>3).', () => {
+      const res = analyze('4d6>3');
+      expect(res.errors.length).toBe(0);
+      expect(res.mean).toBeCloseTo(10);
+      expect(res.probability(0)).toBeCloseTo(1 / 16);
+    });
+    it('analyzes groups ({1d20, 1d20}kh1).', () => {
+      const res = analyze('{1d20, 1d20}kh1');
+      expect(res.errors.length).toBe(0);
+      expect(res.mean).toBeCloseTo(13.825);
+    });
+    it('analyzes group repeaters ({1d6 ...3}).', () => {
+      const res = analyze('{1d6 ...3}');
+      expect(res.errors.length).toBe(0);
+      expect(res.mean).toBeCloseTo(10.5);
+    });
+    it('analyzes functions (floor(1d6 / 2)).', () => {
+      const res = analyze('floor(1d6 / 2)');
+      expect(res.errors.length).toBe(0);
+      expect(res.distribution.values()).toEqual([0, 1, 2, 3]);
+    });
+    it('analyzes the built-in functions (max(1d6, 1d6), highest(4d6, 3), pow(1d6, 2)).', () => {
+      const max = analyze('max(1d6, 1d6)');
+      expect(max.errors.length).toBe(0);
+      expect(max.probability(6)).toBeCloseTo(11 / 36);
+      const highest = analyze('highest(4d6, 3)');
+      expect(highest.errors.length).toBe(0);
+      expect(highest.mean).toBeCloseTo(15869 / 1296);
+      expect(analyze('pow(1d6, 2)').distribution.values()).toEqual([1, 4, 9, 16, 25, 36]);
+    });
+    it('analyzes functions of each die in a pool (min(3d6), count(5d6, 6), unique(2d6), sum(4d6>3)).', () => {
+      expect(analyze('min(3d6)').probability(1)).toBeCloseTo(1 - 125 / 216);
+      expect(analyze('count(5d6, 6)').mean).toBeCloseTo(5 / 6);
+      expect(analyze('unique(2d6)').probability(1)).toBeCloseTo(1 / 6);
+      expect(analyze('sum(4d6>3)').mean).toBeCloseTo(14);
+    });
+    it('reports the dice of a kept pool passed to a function (max(4d6kh3)).', () => {
+      const res = analyze('max(4d6kh3)');
+      expect(res.errors.length).toBe(1);
+    });
+    it('analyzes macros as if their parameters were bound with let (def f(x) = x * x; f(1d6)).', () => {
+      const res = analyze('def f(x) = x * x; f(1d6)');
+      expect(res.errors.length).toBe(0);
+      expect(res.distribution.values()).toEqual([1, 4, 9, 16, 25, 36]);
+    });
+    it('treats every reference to a let binding as the same roll (let x = 1d6; x * x).', () => {
+      const res = analyze('let x = 1d6; x * x');
+      expect(res.errors.length).toBe(0);
+      expect(res.distribution.values()).toEqual([1, 4, 9, 16, 25, 36]);
+      expect(res.probability(36)).toBeCloseTo(1 / 6);
+    });
+    it('reports unknown variables once (let x = 1d6; x + y).', () => {
+      const res = analyze('let x = 1d6; x + y');
+      expect(res.errors.length).toBe(1);
+    });
+    it('weights the branches of a condition (1d20 >= 11 ? 1d4 : 0).', () => {
+      const res = analyze('1d20 >= 11 ? 1d4 : 0');
+      expect(res.errors.length).toBe(0);
+      expect(res.probability(0)).toBeCloseTo(0.5);
+      expect(res.probability(4)).toBeCloseTo(0.125);
+      expect(res.mean).toBeCloseTo(1.25);
+    });
+    it('analyzes logical operators (let x = 1d6; x > 2 and not x = 6 or x = 1).', () => {
+      const res = analyze('let x = 1d6; x > 2 and not x = 6 or x = 1');
+      expect(res.errors.length).toBe(0);
+      expect(res.probability(1)).toBeCloseTo(4 / 6);
+    });
+    it('reports unknown functions.', () => {
+      const res = analyze('foo(1d6)');
+      expect(res.errors.length).toBe(1);
+    });
+    it('reports modifiers that cannot be analyzed (4d6kh3kh2).', () => {
+      const res = analyze('4d6kh3kh2');
+      expect(res.errors.length).toBe(1);
+    });
+    it('reports conditions that would roll forever (1d6r<=6).', () => {
+      const res = analyze('1d6r<=6');
+      expect(res.errors.length).toBe(1);
+    });
+  });
+});
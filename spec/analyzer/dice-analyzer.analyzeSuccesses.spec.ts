@@ -0,0 +1,71 @@
+import { DiceAnalyzer } from '../../src/analyzer';
+import { ExpressionNode } from '../../src/ast';
+import { DiceParser } from '../../src/parser';
+
+function analyzeSuccesses(input: string, analyzer: DiceAnalyzer = new DiceAnalyzer()) {
+  return analyzer.analyzeSuccesses(new DiceParser(input).parse().root as ExpressionNode);
+}
+
+function binomial(n: number, k: number, p: number): number {
+  let coefficient = 1;
+  for (let x = 0; x < k; x++) { coefficient = coefficient * (n - x) / (x + 1); }
+  return coefficient * Math.pow(p, k) * Math.pow(1 - p, n - k);
+}
+
+describe('DiceAnalyzer', () => {
+  describe('analyzeSuccesses', () => {
+    it('counts successes in a target number pool (8d10>7).', () => {
+      const res = analyzeSuccesses('8d10>7');
+      expect(res.errors.length).toBe(0);
+      expect(res.successes.probability(3)).toBeCloseTo(binomial(8, 3, 0.3), 10);
+      expect(res.failures.probability(5)).toBeCloseTo(binomial(8, 3, 0.3), 10);
+      expect(res.probability(3, 5)).toBeCloseTo(binomial(8, 3, 0.3), 10);
+      expect(res.atLeast(1)).toBeCloseTo(1 - Math.pow(0.7, 8), 10);
+    });
+    it('counts every die as a failure without a success condition (4d6).', () => {
+      const res = analyzeSuccesses('4d6');
+      expect(res.successes.values()).toEqual([0]);
+      expect(res.failures.values()).toEqual([4]);
+    });
+    it('counts each explosion as a die of its own (1d10!>=10>=8).', () => {
+      const res = analyzeSuccesses('1d10!>=10>=8');
+      expect(res.errors.length).toBe(0);
+      // A 10 succeeds and explodes, so a second die is rolled that can succeed or fail on its own.
+      expect(res.probability(1, 0)).toBeCloseTo(0.2, 10);
+      expect(res.probability(2, 0)).toBeCloseTo(0.1 * 0.2, 10);
+      expect(res.probability(1, 1)).toBeCloseTo(0.1 * 0.7, 10);
+      expect(res.failures.mean).toBeCloseTo(0.7 / 0.9, 6);
+    });
+    it('applies rerolls before counting (1d6ro<3>=5).', () => {
+      const res = analyzeSuccesses('1d6ro<3>=5');
+      expect(res.errors.length).toBe(0);
+      expect(res.atLeast(1)).toBeCloseTo(2 / 6 + 2 / 6 * 2 / 6, 10);
+    });
+    it('counts group elements against their totals ({1d20 + 5, 1d20 + 5}>=15).', () => {
+      const res = analyzeSuccesses('{1d20 + 5, 1d20 + 5}>=15');
+      expect(res.errors.length).toBe(0);
+      expect(res.successes.probability(2)).toBeCloseTo(0.55 * 0.55, 10);
+    });
+    it('adds up separate pools ((2d6>4) + (1d6>3)).', () => {
+      const res = analyzeSuccesses('(2d6>4) + (1d6>3)');
+      expect(res.successes.mean).toBeCloseTo(2 / 3 + 1 / 2, 10);
+      expect(res.failures.mean).toBeCloseTo(4 / 3 + 1 / 2, 10);
+    });
+    it('reports modifiers that cannot be counted exactly (8d10kh3>7).', () => {
+      const res = analyzeSuccesses('8d10kh3>7');
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Success counts cannot be analyzed for a Keep modifier.');
+    });
+    it('reports pools that and and or may skip (0 and 5d6, 1d6 > 3 or 2d6).', () => {
+      ['0 and 5d6', '1d6 > 3 or 2d6'].forEach(input => {
+        const res = analyzeSuccesses(input);
+        expect(res.errors.map(error => error.message)).toEqual(['Success counts cannot be analyzed through a condition.'], input);
+      });
+    });
+    it('reports pools with too many outcomes (50d6!>=2>=4).', () => {
+      const res = analyzeSuccesses('50d6!>=2>=4', new DiceAnalyzer({ maxStates: 1000 }));
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Too many outcomes to analyze. Maximum allowed: 1000.');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { Distribution } from '../../src/analyzer';
+
+describe('Distribution', () => {
+  describe('uniform', () => {
+    it('assigns an equal probability to every value (1..4).', () => {
+      const dist = Distribution.uniform(1, 4);
+      expect(dist.values()).toEqual([1, 2, 3, 4]);
+      expect(dist.probability(3)).toBeCloseTo(0.25);
+      expect(dist.probability(5)).toBe(0);
+    });
+  });
+  describe('statistics', () => {
+    it('calculates mean, variance, min and max (1d6).', () => {
+      const dist = Distribution.uniform(1, 6);
+      expect(dist.mean).toBeCloseTo(3.5);
+      expect(dist.variance).toBeCloseTo(35 / 12);
+      expect(dist.standardDeviation).toBeCloseTo(Math.sqrt(35 / 12));
+      expect(dist.min).toBe(1);
+      expect(dist.max).toBe(6);
+    });
+    it('calculates percentiles and cumulative probabilities (1d4).', () => {
+      const dist = Distribution.uniform(1, 4);
+      expect(dist.percentile(0)).toBe(1);
+      expect(dist.percentile(50)).toBe(2);
+      expect(dist.percentile(51)).toBe(3);
+      expect(dist.percentile(100)).toBe(4);
+      expect(dist.cumulative(3)).toBeCloseTo(0.75);
+      expect(dist.atLeast(3)).toBeCloseTo(0.5);
+    });
+  });
+  describe('combine', () => {
+    it('convolves two independent distributions (1d6 + 1d6).', () => {
+      const dist = Distribution.uniform(1, 6).add(Distribution.uniform(1, 6));
+      expect(dist.min).toBe(2);
+      expect(dist.max).toBe(12);
+      expect(dist.probability(7)).toBeCloseTo(6 / 36);
+    });
+    it('repeats a distribution a number of times (3d6).', () => {
+      const dist = Distribution.uniform(1, 6).repeat(3);
+      expect(dist.probability(3)).toBeCloseTo(1 / 216);
+      expect(dist.probability(10)).toBeCloseTo(27 / 216);
+      expect(Distribution.uniform(1, 6).repeat(0).values()).toEqual([0]);
+    });
+  });
+  describe('given', () => {
+    it('conditions a distribution on a predicate (1d6 > 2).', () => {
+      const dist = Distribution.uniform(1, 6).given(value => value > 2);
+      expect(dist.values()).toEqual([3, 4, 5, 6]);
+      expect(dist.probability(3)).toBeCloseTo(0.25);
+    });
+  });
+});
@@ -15,6 +15,11 @@ describe('ExpressionNode', () => {
     it('should not be the same object', () => {
       expect(root.copy()).not.toBe(root);
     });
+    it('should preserve source spans', () => {
+      const node = Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 10);
+      node.span = new Ast.SourceSpan(2, 4);
+      expect(node.copy().span).toEqual(node.span);
+    });
   });
   describe('getChild', () => {
     it('should throw if index is out of bounds.', () => {
@@ -24,6 +29,14 @@ describe('ExpressionNode', () => {
       }).toThrow();
     });
   });
+  describe('getSpan', () => {
+    it('should fall back to the nearest parent with a span.', () => {
+      const root = Ast.Factory.create(Ast.NodeType.Dice);
+      root.span = new Ast.SourceSpan(0, 3);
+      const roll = root.addChild(Ast.Factory.create(Ast.NodeType.DiceRoll));
+      expect((roll as Ast.ExpressionNode).getSpan()).toBe(root.span);
+    });
+  });
   describe('insertChild', () => {
     it('should throw when adding a node as a child of itself.', () => {
       const root = Ast.Factory.create(Ast.NodeType.Number);
@@ -0,0 +1,47 @@
+import { Dice, DiceResult } from '../../src';
+import { SeededRandomProvider } from '../../src/random';
+
+const Iterations = 2000;
+
+// Milliseconds taken to run fn the given number of times, after a short warm up.
+function time(fn: () => DiceResult): number {
+  for (let x = 0; x < 200; x++) { fn(); }
+  const started = Date.now();
+  for (let x = 0; x < Iterations; x++) { fn(); }
+  return Date.now() - started;
+}
+
+// Prints the timings rather than comparing them, so a slow or busy runner cannot fail the build.
+function report(name: string, roll: () => DiceResult, compiled: () => DiceResult): void {
+  const rolled = time(roll);
+  const ran = time(compiled);
+  console.log(`${name}: roll ${rolled}ms, compiled ${ran}ms for ${Iterations} iterations.`);
+  expect(compiled().errors).toEqual([]);
+}
+
+describe('DiceCompiler', () => {
+  describe('benchmark', () => {
+    const dice = new Dice(null, new SeededRandomProvider(1));
+
+    it('times a compiled expression against parsing it every time (4d6kh3 + 1d20 + 5).', () => {
+      const input = '4d6kh3 + 1d20 + 5';
+      const compiled = dice.compile(input);
+      report(input, () => dice.roll(input), () => compiled());
+    });
+    it('times a compiled expression without rendering or a breakdown (4d6kh3 + 1d20 + 5).', () => {
+      const input = '4d6kh3 + 1d20 + 5';
+      const compiled = dice.compile(input, { render: false, breakdown: false });
+      report(`${input} (no render)`, () => dice.roll(input), () => compiled());
+    });
+    it('times conditions and variables (1d20 >= 15 ? 2d8 + @str : 0).', () => {
+      const input = '1d20 >= 15 ? 2d8 + @str : 0';
+      const compiled = dice.compile(input, { render: false, breakdown: false });
+      report(input, () => dice.roll(input, { str: 3 }), () => compiled({ str: 3 }));
+    });
+    it('times an expression the interpreter has to evaluate (2d6! + max(1d6, 1d8)).', () => {
+      const input = '2d6! + max(1d6, 1d8)';
+      const compiled = dice.compile(input, { render: false, breakdown: false });
+      report(input, () => dice.roll(input), () => compiled());
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { Dice } from '../../src';
+import { ExpressionNode } from '../../src/ast';
+import { DiceCompiler } from '../../src/compiler';
+import { DiceGenerator } from '../../src/generator';
+import { DiceInterpreter, DiceResult, VariableContext } from '../../src/interpreter';
+import { InterpreterOptions } from '../../src/interpreter/interpreter-options.interface';
+import { DiceParser } from '../../src/parser';
+import { SeededRandomProvider } from '../../src/random';
+import { parse } from '../helpers';
+
+function createCompiler(seed: number, options?: InterpreterOptions): DiceCompiler {
+  const random = new SeededRandomProvider(seed);
+  const generator = new DiceGenerator();
+  return new DiceCompiler(new DiceInterpreter(null, random, generator, options), generator, random, options);
+}
+
+function summarize(result: DiceResult) {
+  return {
+    total: result.total,
+    successes: result.successes,
+    failures: result.failures,
+    errors: result.errors.map(error => error.message),
+    draws: result.draws.map(draw => [draw.value, draw.sides, draw.die]),
+    band: result.band,
+    margin: result.margin,
+    pool: result.pool,
+  };
+}
+
+// Rolls the same expression through the interpreter and through a compiled closure from the same seed.
+function expectSameRolls(input: string, variables?: VariableContext, options?: InterpreterOptions) {
+  const expression = parse(input);
+  expect(new DiceParser(input).parse().errors).toEqual([]);
+  const interpreter = new DiceInterpreter(null, new SeededRandomProvider(11), new DiceGenerator(), options);
+  const compiled = createCompiler(11, options).compile(expression, { render: false, breakdown: false });
+  for (let x = 0; x < 20; x++) {
+    expect(summarize(compiled(variables))).toEqual(summarize(interpreter.interpret(expression, variables)));
+  }
+}
+
+describe('DiceCompiler', () => {
+  describe('compile', () => {
+    it('renders and breaks down each roll by default (2d6 + 3).', () => {
+      const expression = parse('2d6 + 3');
+      const compiled = createCompiler(5).compile(expression);
+      const expected = new DiceInterpreter(null, new SeededRandomProvider(5)).interpret(expression);
+      const res = compiled();
+      expect(res.total).toBe(expected.total);
+      expect(res.renderedExpression).toBe(expected.renderedExpression);
+      expect(res.breakdown).toEqual(expected.breakdown);
+      expect(res.draws).toEqual(expected.draws);
+    });
+    it('can skip rendering but keep the breakdown (4d6kh3).', () => {
+      const res = createCompiler(5).compile(parse('4d6kh3'), { render: false })();
+      expect(res.renderedExpression).toBe('');
+      expect(res.breakdown.length).toBe(4);
+      expect(res.breakdown.filter(die => die.dropped).length).toBe(1);
+    });
+    it('leaves the compiled expression unchanged (2d6!).', () => {
+      const expression = parse('2d6!');
+      const compiled = createCompiler(5).compile(expression, { render: false, breakdown: false });
+      compiled();
+      compiled();
+      expect(expression.getChild(0).getChildCount()).toBe(2);
+      expect(expression.getChild(0).getAttribute('value')).toBeUndefined();
+    });
+    it('skips rendering and the breakdown when asked (1d20 + 5).', () => {
+      const res = createCompiler(5).compile(parse('1d20 + 5'), { render: false, breakdown: false })();
+      expect(res.renderedExpression).toBe('');
+      expect(res.breakdown).toEqual([]);
+      expect(res.draws.length).toBe(1);
+    });
+    it('parses the input once rather than on every roll (4d6kh3 + 1d20 + 5).', () => {
+      const compiled = new Dice(null, new SeededRandomProvider(1)).compile('4d6kh3 + 1d20 + 5');
+      const parser = spyOn(DiceParser.prototype, 'parse').and.callThrough();
+      compiled();
+      compiled();
+      expect(parser).not.toHaveBeenCalled();
+    });
+    it('runs without copying, evaluating or rendering the tree when nothing asks for it.', () => {
+      const plain = createCompiler(1).compile(parse('4d6kh3 + 1d20 + 5'), { render: false, breakdown: false });
+      const conditional = createCompiler(1).compile(parse('1d20 >= 15 ? 2d8 + @str : 0'), { render: false, breakdown: false });
+      const copy = spyOn(ExpressionNode.prototype, 'copy').and.callThrough();
+      const evaluate = spyOn(DiceInterpreter.prototype, 'evaluate').and.callThrough();
+      const generate = spyOn(DiceGenerator.prototype, 'generate').and.callThrough();
+      plain();
+      conditional({ str: 3 });
+      expect(copy).not.toHaveBeenCalled();
+      expect(evaluate).not.toHaveBeenCalled();
+      expect(generate).not.toHaveBeenCalled();
+    });
+    it('evaluates a copy of the tree without rendering it where it falls back (2d6! + max(1d6, 1d8)).', () => {
+      const compiled = createCompiler(1).compile(parse('2d6! + max(1d6, 1d8)'), { render: false, breakdown: false });
+      const evaluate = spyOn(DiceInterpreter.prototype, 'evaluate').and.callThrough();
+      const generate = spyOn(DiceGenerator.prototype, 'generate').and.callThrough();
+      compiled();
+      expect(evaluate).toHaveBeenCalled();
+      expect(generate).not.toHaveBeenCalled();
+    });
+    it('rolls the same as the interpreter for plain dice and arithmetic.', () => {
+      expectSameRolls('3d6 + 1d8 * 2 - 4 / 2 % 3 ** 2');
+      expectSameRolls('-1d4 + 4dF');
+      expectSameRolls('(1d3)d6');
+    });
+    it('rolls the same as the interpreter for keep, drop and successes.', () => {
+      expectSameRolls('4d6kh3 + 2d20kl1 + 4d6dl1 + 3d10dh');
+      expectSameRolls('6d10>=8 + 5d6<3 + 4d6=6');
+    });
+    it('rolls the same as the interpreter for variables, let and conditions.', () => {
+      expectSameRolls('let x = 1d6; x + x + @bonus', { bonus: 2 });
+      expectSameRolls('1d20 >= 10 and not 1d6 = 1 ? 2d6 : 3d4');
+      expectSameRolls('(1d2 + 0) = 1 or 1d4 + 0 > 2 ? 1 : 0');
+      expectSameRolls('1d4 != 4 ? 1d6 : 0');
+      expectSameRolls('(2d2) != 3');
+      expectSameRolls('@bonus != 2', { bonus: 2 });
+      expectSameRolls('@missing + 1');
+      expectSameRolls('1d2 = 1 ? 4d6 : 3d6 and 1d6 > 3');
+      expectSameRolls('1d2 = 1 or 5d6');
+    });
+    it('rolls the same as the interpreter where it falls back to evaluating the tree.', () => {
+      expectSameRolls('2d6! + 3d6r<2 + max(1d6, 1d8) + {1d4, 2d4}kh1');
+      expectSameRolls('{2d6 ...3}');
+      expectSameRolls('10d10>=7t10f1g + 2d6');
+    });
+    it('reports the same outcome bands as the interpreter.', () => {
+      expectSameRolls('2d6 + 1 bands miss, 7 partial, 10 hit over 7');
+      expectSameRolls('1d20', undefined, { outcomeBands: { bands: [{ label: 'fail' }, { label: 'pass', from: 12 }], target: 12 } });
+    });
+    it('reports the same limits as the interpreter.', () => {
+      expectSameRolls('2d6 + 3d6 + 4d6', undefined, { maxDice: 6 });
+      expectSameRolls('20d6', undefined, { maxRollTimes: 10 });
+      expectSameRolls('(1d20)d6', undefined, { maxRollTimes: 10 });
+      expectSameRolls('1d1000', undefined, { maxDiceSides: 100 });
+      expectSameRolls('1 + 2 + 3 + 4', undefined, { maxNodes: 5 });
+    });
+  });
+});
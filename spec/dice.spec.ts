@@ -1,4 +1,4 @@
-import { Dice } from '../src';
+import { Dice, GenesysDice, GenesysSymbolRules } from '../src';
 import { MockListRandomProvider } from './helpers';
 
 describe('Dice', () => {
@@ -46,5 +46,199 @@ describe('Dice', () => {
       const exp = dice.roll('2d10!r');
       expect(exp.total).toBe(16);
     });
+    it('reuses a bound roll and reads caller variables (let atk = 1d20; atk + atk + @str)', () => {
+      const mock = new MockListRandomProvider([7, 20]);
+      const dice = new Dice(null, mock);
+      const exp = dice.roll('let atk = 1d20; atk + atk + @str', { str: 3 });
+      expect(exp.errors.length).toBe(0);
+      expect(exp.total).toBe(17);
+    });
+    it('rolls damage twice on a natural 20 (let atk = 1d20; atk = 20 ? 2d6 + 2d6 : 2d6)', () => {
+      const mock = new MockListRandomProvider([20, 1, 2, 3, 4]);
+      const dice = new Dice(null, mock);
+      const exp = dice.roll('let atk = 1d20; atk = 20 ? 2d6 + 2d6 : 2d6');
+      expect(exp.errors.length).toBe(0);
+      expect(exp.total).toBe(10);
+    });
+    it('reports the outcome band set on the instance (1d100)', () => {
+      const outcomeBands = { bands: [{ label: 'success' }, { label: 'failure', from: 51 }], target: 50, under: true };
+      const dice = new Dice(null, new MockListRandomProvider([42]), { outcomeBands });
+      const exp = dice.roll('1d100');
+      expect(exp.band).toBe('success');
+      expect(exp.margin).toBe(8);
+    });
+    it('returns parse errors instead of rolling (1d20 + $4 * #2)', () => {
+      const dice = new Dice(null, new MockListRandomProvider([]));
+      const exp = dice.roll('1d20 + $4 * #2');
+      expect(exp.errors.length).toBe(2);
+      expect(exp.total).toBe(0);
+    });
+    it('returns parse errors for dice not written with a d (3g, 2x, 3gk, f<2f<2)', () => {
+      const dice = new Dice(null, new MockListRandomProvider([]));
+      ['3g', '2x', '3gk', 'f<2f<2'].forEach(input => {
+        const exp = dice.roll(input);
+        expect(exp.errors.length).toBeGreaterThan(0);
+        expect(exp.total).toBe(0);
+      });
+    });
+  });
+  describe('compile', () => {
+    it('rolls the parsed expression again on every call (1d20 + @mod)', () => {
+      const dice = new Dice(null, new MockListRandomProvider([4, 17]));
+      const attack = dice.compile('1d20 + @mod');
+      expect(attack({ mod: 2 }).total).toBe(6);
+      expect(attack({ mod: 3 }).total).toBe(20);
+    });
+    it('returns parse errors on every call (1d6 + $)', () => {
+      const compiled = new Dice().compile('1d6 + $');
+      expect(compiled().errors.length).toBe(2);
+      expect(compiled().total).toBe(0);
+    });
+    it('returns parse errors for dice not written with a d (3g, 2x, 3gk, f<2f<2)', () => {
+      ['3g', '2x', '3gk', 'f<2f<2'].forEach(input => {
+        expect(new Dice().compile(input)().errors.length).toBeGreaterThan(0);
+      });
+    });
+  });
+  describe('analyzeSuccesses', () => {
+    it('returns the distribution of successes (8d10>7)', () => {
+      const analysis = new Dice().analyzeSuccesses('8d10>7');
+      expect(analysis.errors.length).toBe(0);
+      expect(analysis.successes.mean).toBeCloseTo(2.4);
+      expect(analysis.atLeast(0)).toBeCloseTo(1);
+    });
+    it('reports successes rolled inside a macro (hits(3))', () => {
+      const dice = new Dice();
+      dice.define('def hits(n) = (n)d10>7;');
+      const analysis = dice.analyzeSuccesses('hits(3)');
+      expect(analysis.errors.map(error => error.message)).toEqual(['Success counts cannot be analyzed through a macro.']);
+    });
+  });
+  describe('simulate', () => {
+    it('gives the same result for the same seed (10d10!>=8)', () => {
+      const dice = new Dice();
+      const first = dice.simulate('10d10!>=8', { trials: 500, seed: 3 });
+      const second = dice.simulate('10d10!>=8', { trials: 500, seed: 3 });
+      expect(first.trials).toBe(500);
+      expect(first.histogram).toEqual(second.histogram);
+    });
+    it('returns parse errors instead of simulating (1d6 + $)', () => {
+      const result = new Dice().simulate('1d6 + $');
+      expect(result.errors.length).toBe(2);
+      expect(result.trials).toBe(0);
+    });
+    it('returns parse errors for dice not written with a d (3g, 2x, 3gk, f<2f<2)', () => {
+      ['3g', '2x', '3gk', 'f<2f<2'].forEach(input => {
+        expect(new Dice().simulate(input).errors.length).toBeGreaterThan(0);
+      });
+    });
+  });
+  describe('format', () => {
+    it('writes differently typed macros the same way (4D6K3, 4d6kh3, 4d6 k 3)', () => {
+      const dice = new Dice();
+      ['4D6K3', '4d6kh3', '4d6 k 3'].forEach(input => {
+        const result = dice.format(input);
+        expect(result.errors.length).toBe(0);
+        expect(result.formatted).toBe('4d6kh3');
+      });
+    });
+    it('returns parse errors instead of formatting (1d6 + $)', () => {
+      const result = new Dice().format('1d6 + $');
+      expect(result.errors.length).toBe(2);
+      expect(result.formatted).toBe('');
+    });
+    it('returns parse errors for dice not written with a d (3g, 2x, 3gk, f<2f<2)', () => {
+      ['3g', '2x', '3gk', 'f<2f<2'].forEach(input => {
+        expect(new Dice().format(input).errors.length).toBeGreaterThan(0);
+      });
+    });
+  });
+  describe('registerDice', () => {
+    it('rolls dice registered by name (2dBoost)', () => {
+      const dice = new Dice(null, new MockListRandomProvider([5, 0]));
+      dice.registerDice('Boost', [0, 0, 1, 1, 2, 2]);
+      const result = dice.roll('2dBoost + 1');
+      expect(result.errors.length).toBe(0);
+      expect(result.total).toBe(3);
+      expect(result.renderedExpression).toBe('[2, 0] + 1');
+    });
+    it('analyzes dice registered by name (1dBoost)', () => {
+      const dice = new Dice().registerDice('Boost', [0, 2]);
+      expect(dice.analyze('1dBoost').mean).toBeCloseTo(1);
+    });
+    it('rejects names that could not be written after the d (d6, dF)', () => {
+      expect(() => new Dice().registerDice('Six6', [6])).toThrow();
+      expect(() => new Dice().registerDice('F', [1])).toThrow();
+      expect(() => new Dice().registerDice('Empty', [])).toThrow();
+    });
+  });
+  describe('registerSymbolicDice', () => {
+    it('tallies symbols from registered and built-in narrative dice (1dA + 1dStress)', () => {
+      const dice = new Dice(null, new MockListRandomProvider([1, 1]), { symbolicDice: GenesysDice, symbolRules: GenesysSymbolRules });
+      dice.registerSymbolicDice('Stress', [[], ['failure', 'strain']]);
+      const result = dice.roll('1dA + 1dStress');
+      expect(result.errors.length).toBe(0);
+      expect(result.symbols).toEqual(jasmine.objectContaining({ net: { strain: 1 } }));
+    });
+    it('cannot analyze narrative dice (1dA)', () => {
+      const dice = new Dice(null, null, { symbolicDice: GenesysDice });
+      expect(dice.analyze('1dA').errors[0].message).toBe('Symbolic dice cannot be analyzed.');
+    });
+  });
+  describe('define', () => {
+    it('registers a macro library for later rolls', () => {
+      const dice = new Dice(null, new MockListRandomProvider([5, 17, 3, 9]));
+      const errors = dice.define('def adv(x) = 2d20kh1 + x; def dis(x) = 2d20kl1 + x;');
+      expect(errors.length).toBe(0);
+      expect(dice.roll('adv(2)').total).toBe(19);
+      expect(dice.roll('dis(@atk)', { atk: 1 }).total).toBe(4);
+    });
+    it('keeps macros on the instance that defined them', () => {
+      const dice = new Dice();
+      dice.define('def one() = 1;');
+      expect(dice.roll('one()').total).toBe(1);
+      expect(new Dice().roll('one()').errors.length).toBe(1);
+    });
+    it('reports anything in a library that is not a definition', () => {
+      const errors = new Dice().define('def one() = 1; 1d6');
+      expect(errors.length).toBe(1);
+      expect(errors[0].message).toBe('Macro libraries may only contain definitions.');
+    });
+  });
+  describe('analyze', () => {
+    it('returns parse errors instead of analyzing (1d20 + $4)', () => {
+      const analysis = new Dice().analyze('1d20 + $4');
+      expect(analysis.errors.length).toBe(1);
+      expect(analysis.distribution.size).toBe(0);
+    });
+    it('returns the exact distribution of an expression (4d6kh3)', () => {
+      const dice = new Dice();
+      const res = dice.analyze('4d6kh3');
+      expect(res.errors.length).toBe(0);
+      expect(res.min).toBe(3);
+      expect(res.max).toBe(18);
+      expect(res.mean).toBeCloseTo(12.2446);
+    });
+    it('analyzes with caller variables (1d6 + @bonus)', () => {
+      const dice = new Dice();
+      const res = dice.analyze('1d6 + @bonus', { bonus: 2 });
+      expect(res.errors.length).toBe(0);
+      expect(res.min).toBe(3);
+      expect(res.max).toBe(8);
+    });
+    it('analyzes macros registered with define (adv(2))', () => {
+      const dice = new Dice();
+      dice.define('def adv(x) = 2d20kh1 + x;');
+      const res = dice.analyze('adv(2)');
+      expect(res.errors.length).toBe(0);
+      expect(res.min).toBe(3);
+      expect(res.mean).toBeCloseTo(13.825 + 2);
+    });
+    it('reports functions passed to the instance (double(1d6))', () => {
+      const res = new Dice({ double: (interpreter, node, errors) => 2 * interpreter.evaluate(node.getChild(0), errors) })
+        .analyze('double(1d6)');
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Custom functions cannot be analyzed: double.');
+    });
   });
 });
@@ -0,0 +1,69 @@
+import { DiceFormatter, FormatterOptions } from '../../src/formatter';
+import { DiceParser } from '../../src/parser';
+
+function format(input: string, options?: FormatterOptions): string {
+  const result = new DiceParser(input).parse();
+  expect(result.errors.length).toBe(0, input);
+  return new DiceFormatter(options).format(result.root);
+}
+
+describe('DiceFormatter', () => {
+  describe('format', () => {
+    it('spells modifiers the same way however they were typed (4D6K3, 4d6 k 3, 2D20KL1).', () => {
+      expect(format('4D6K3')).toBe('4d6kh3');
+      expect(format('4d6 k 3')).toBe('4d6kh3');
+      expect(format('2D20KL1')).toBe('2d20kl1');
+      expect(format('4dF')).toBe('4dF');
+    });
+    it('writes default arguments out by default (d20, 4d6d, 2d20k, 6d10s, 1d20c).', () => {
+      expect(format('d20')).toBe('1d20');
+      expect(format('4d6d')).toBe('4d6dl1');
+      expect(format('2d20k')).toBe('2d20kh1');
+      expect(format('6d10s')).toBe('6d10sa');
+      expect(format('1d20c')).toBe('1d20cs');
+    });
+    it('leaves default arguments off when elided (1d20, 4d6dl1, 2d20kh1, 6d10sa, 1d20cs).', () => {
+      const options: FormatterOptions = { defaults: 'elided' };
+      expect(format('1d20', options)).toBe('d20');
+      expect(format('4d6dl1', options)).toBe('4d6d');
+      expect(format('2d20kh1', options)).toBe('2d20k');
+      expect(format('4d6kh3', options)).toBe('4d6k3');
+      expect(format('6d10sa', options)).toBe('6d10s');
+      expect(format('1d20cs', options)).toBe('d20c');
+      expect(format('2d20kl1', options)).toBe('2d20kl');
+    });
+    it('keeps elided modifiers apart from the next one (4d6kh1sa, 4d6!p kh3).', () => {
+      expect(format('4d6kh1sa', { defaults: 'elided' })).toBe('4d6k s');
+      expect(format('4d6!p  kh3')).toBe('4d6!p kh3');
+    });
+    it('spaces operators out by default (1d20+5>=15?2d6:0).', () => {
+      expect(format('1d20+5>=15?2d6:0')).toBe('1d20 + 5 >= 15 ? 2d6 : 0');
+      expect(format('let x=1d6;x*2')).toBe('let x = 1d6; x * 2');
+    });
+    it('removes the spaces around operators when compact (1d20 + 5 >= 15 ? 2d6 : 0).', () => {
+      const options: FormatterOptions = { spacing: 'compact' };
+      expect(format('1d20 + 5 >= 15 ? 2d6 : 0', options)).toBe('1d20+5>=15?2d6:0');
+      expect(format('let x = 1d6; x * 2 and 1', options)).toBe('let x=1d6; x*2 and 1');
+      expect(format('max(1d6, 2) + {1d6, 3}', options)).toBe('max(1d6, 2)+{1d6, 3}');
+    });
+    it('puts dice before other terms and constants when sorting terms (5 + @str + 1d20).', () => {
+      const options: FormatterOptions = { sortTerms: true };
+      expect(format('5 + @str + 1d20', options)).toBe('1d20 + @str + 5');
+      expect(format('2 + (1 + 1d6) * 3', options)).toBe('(1d6 + 1) * 3 + 2');
+      expect(format('5 - 1d4 + 1d6', options)).toBe('5 - 1d4 + 1d6');
+    });
+    it('formats its own output to the same text.', () => {
+      const inputs = ['4D6K3 + D4', '(2d6) != 3', '10d10!>=8 - 2', '4dF kh2 sa', '{3d6 ...2} + 1d20cf<3', 'not 1d6 = 1 or 2d4dh'];
+      const styles: FormatterOptions[] = [{}, { defaults: 'elided' }, { spacing: 'compact', sortTerms: true }];
+      styles.forEach(options => inputs.forEach(input => {
+        const formatted = format(input, options);
+        expect(format(formatted, options)).toBe(formatted, input);
+      }));
+    });
+    it('does not change the expression it is given.', () => {
+      const expression = new DiceParser('5 + 1d20').parse().root;
+      new DiceFormatter({ sortTerms: true }).format(expression);
+      expect(expression.getChild(0).getAttribute('value')).toBe(5);
+    });
+  });
+});
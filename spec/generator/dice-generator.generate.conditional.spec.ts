@@ -0,0 +1,39 @@
+import * as Ast from '../../src/ast';
+import * as Generator from '../../src/generator';
+
+function variable(name: string) {
+  return Ast.Factory.create(Ast.NodeType.Variable).setAttribute('name', name);
+}
+
+describe('DiceGenerator', () => {
+  describe('generate', () => {
+    it('correctly generates a conditional (x != 1 ? 2 : 3).', () => {
+      const condition = Ast.Factory.create(Ast.NodeType.NotEqual);
+      condition.addChild(variable('x'));
+      condition.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 1));
+
+      const exp = Ast.Factory.create(Ast.NodeType.Conditional);
+      exp.addChild(condition);
+      exp.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 2));
+      exp.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 3));
+
+      const generator = new Generator.DiceGenerator();
+      expect(generator.generate(exp)).toBe('x != 1 ? 2 : 3');
+    });
+    it('correctly generates logical operators (not a and b or c).', () => {
+      const not = Ast.Factory.create(Ast.NodeType.Not);
+      not.addChild(variable('a'));
+
+      const and = Ast.Factory.create(Ast.NodeType.And);
+      and.addChild(not);
+      and.addChild(variable('b'));
+
+      const exp = Ast.Factory.create(Ast.NodeType.Or);
+      exp.addChild(and);
+      exp.addChild(variable('c'));
+
+      const generator = new Generator.DiceGenerator();
+      expect(generator.generate(exp)).toBe('not a and b or c');
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import * as Ast from '../../src/ast';
+import * as Generator from '../../src/generator';
+
+describe('DiceGenerator', () => {
+  describe('generate', () => {
+    const roll = () => Ast.Factory.create(Ast.NodeType.DiceRoll)
+      .setAttribute('value', 4)
+      .setAttribute('rerolls', [1, 2]);
+
+    it('hides reroll history by default.', () => {
+      const generator = new Generator.DiceGenerator();
+      expect(generator.generate(roll())).toBe('4');
+    });
+    it('renders reroll history with arrows.', () => {
+      const generator = new Generator.DiceGenerator({ rerolls: 'arrow' });
+      expect(generator.generate(roll())).toBe('1 → 2 → 4');
+    });
+    it('renders reroll history with strikethrough markers.', () => {
+      const generator = new Generator.DiceGenerator({ rerolls: 'strikethrough' });
+      expect(generator.generate(roll())).toBe('~~1~~ ~~2~~ 4');
+    });
+    it('renders dice that were not rerolled as their value.', () => {
+      const generator = new Generator.DiceGenerator({ rerolls: 'arrow' });
+      expect(generator.generate(Ast.Factory.create(Ast.NodeType.DiceRoll).setAttribute('value', 3))).toBe('3');
+    });
+  });
+});
@@ -102,6 +102,44 @@ describe('DiceGenerator', () => {
 
       expect(generator.generate(dice)).toBe('[4, 5, 6]');
     });
+    it('truncates long lists of dice roll values ([4, 5, ... 2 more]).', () => {
+      const dice = Ast.Factory.create(Ast.NodeType.Dice).setAttribute('sides', 6);
+      [4, 5, 6, 1].forEach(value => dice.addChild(Ast.Factory.create(Ast.NodeType.DiceRoll).setAttribute('value', value)));
+
+      const generator = new Generator.DiceGenerator({ maxListLength: 2 });
+
+      expect(generator.generate(dice)).toBe('[4, 5, ... 2 more]');
+    });
+    it('generates the face counts of an aggregated roll ([1×3, 4×2, ... 1 more]).', () => {
+      const dice = Ast.Factory.create(Ast.NodeType.Dice)
+        .setAttribute('sides', 6)
+        .setAttribute('faces', [[1, 3], [4, 2], [6, 1]]);
+
+      expect(new Generator.DiceGenerator().generate(dice)).toBe('[1×3, 4×2, 6×1]');
+      expect(new Generator.DiceGenerator({ maxListLength: 2 }).generate(dice)).toBe('[1×3, 4×2, ... 1 more]');
+    });
+    it('generates success pool modifiers (5d10 >= 7t10f<3g).', () => {
+      const dice = Ast.Factory.create(Ast.NodeType.Dice);
+      dice.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 5));
+      dice.addChild(Ast.Factory.create(Ast.NodeType.DiceSides).setAttribute('value', 10));
+      const success = Ast.Factory.create(Ast.NodeType.GreaterOrEqual);
+      success.addChild(dice);
+      success.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 7));
+
+      let root = success;
+      [['double', Ast.NodeType.Equal, 10], ['subtract', Ast.NodeType.Less, 3], ['glitch']].forEach(([type, compare, face]) => {
+        const pool = Ast.Factory.create(Ast.NodeType.Pool).setAttribute('type', type);
+        pool.addChild(root);
+        if (compare) {
+          const condition = Ast.Factory.create(compare as Ast.NodeType);
+          condition.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', face));
+          pool.addChild(condition);
+        }
+        root = pool;
+      });
+
+      expect(new Generator.DiceGenerator().generate(root)).toBe('5d10 >= 7t10f<3g');
+    });
     it('throws on malformed dice expression (2d).', () => {
       const dice = Ast.Factory.create(Ast.NodeType.Dice);
       dice.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 2));
@@ -14,7 +14,7 @@ describe('DiceGenerator', () => {
 
       expect(generator.generate(group)).toBe('{5, 2}');
     });
-    it('correctly evaluates a group with a repeater {5...2}.', () => {
+    it('correctly evaluates a group with a repeater {5 ...2}.', () => {
       const group = Ast.Factory.create(Ast.NodeType.Group);
 
       const repeat = Ast.Factory.create(Ast.NodeType.Repeat);
@@ -25,7 +25,7 @@ describe('DiceGenerator', () => {
 
       const generator = new Generator.DiceGenerator();
 
-      expect(generator.generate(group)).toBe('{5...2}');
+      expect(generator.generate(group)).toBe('{5 ...2}');
     });
     it('correctly evaluates a group with modifiers {5, 2}kh.', () => {
       const keep = Ast.Factory.create(Ast.NodeType.Keep);
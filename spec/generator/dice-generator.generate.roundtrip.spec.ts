@@ -0,0 +1,300 @@
+import * as Ast from '../../src/ast';
+import { DiceGenerator } from '../../src/generator';
+import { DiceParser } from '../../src/parser';
+import { SeededRandomProvider } from '../../src/random';
+
+// Expressions taken from the rest of the specs.
+const Corpus = [
+      '(1 + 2) * 3',
+      '3d{0, 0, 1, 1, 2, 3}kh2',
+      '1d{-1, 0, 0, 1} + 2dBoost',
+      '2dBoost kh1!',
+      'd% + 1d%b2 - 2d00p1',
+      '2d6 + @mod bands miss, 7 partial, 10 hit over 7',
+      '10d10>=7t10 + 6d10>=6f1',
+      '12d6>=5g + 5d10>=8t>=9f<3kh3',
+      'let x = 4dF; x bands -4 terrible, 0 fair, 3 great under -1',
+      '(1d2 + 0) = 1 or 1d4 + 0 > 2 ? 1 : 0',
+      '(1d2)d6',
+      '(1d20) != 20',
+      '(1d20)d6',
+      '(1d3)d6',
+      '(2d6>4) + (1d6>3)',
+      '-1d4 + 4dF',
+      '0 and 1d6 or 1',
+      '1 + 2',
+      '1 + 2 + 3 + 4',
+      '10 * (5 + 2)',
+      '10 * 5 + 2',
+      '100d6',
+      '10d10!>=8',
+      '10d6>4',
+      '10d6kh2',
+      '1d10!>=10>=8',
+      '1d1000',
+      '1d20',
+      '1d20 + 5',
+      '1d20 + 5 >= 15 ? 2d6 : 0',
+      '1d20 + @mod',
+      '1d20 + str',
+      '1d20 + str + @prof',
+      '1d20 >= 10 and not 1d6 = 1 ? 2d6 : 3d4',
+      '1d20 >= 11 ? 1d4 : 0',
+      '1d20 >= 15 ? 2d6 : 1d4',
+      '1d6',
+      '1d6 + 1',
+      '1d6 + 1d6',
+      '1d6 + @bonus',
+      '1d6 + x',
+      '1d6!',
+      '1d6! + 1',
+      '1d6!p',
+      '1d6r',
+      '1d6r<3',
+      '1d6r<=6',
+      '1d6ro',
+      '1d6ro<3>=5',
+      '2 * 3 + 1',
+      '2 + 10 * 5',
+      '20d6',
+      '2d10!r',
+      '2d10kl',
+      '2d20dh',
+      '2d20kl',
+      '2d6',
+      '2d6 + 1',
+      '2d6 + 3',
+      '2d6 + 3d6 + 4d6',
+      '2d6 > 7 ? 1 : 0',
+      '2d6!',
+      '2d6! + 3d6r<2 + max(1d6, 1d8) + {1d4, 2d4}kh1',
+      '2d6!r + 1dF',
+      '2d6r<3',
+      '3d20cs>19>10',
+      '3d6 + 1d8 * 2 - 4 / 2 % 3 ** 2',
+      '3d6kh2',
+      '4d6',
+      '4d6!!kh1',
+      '4d6!=6',
+      '4d6!kh3',
+      '4d6>3',
+      '4d6kh3',
+      '4d6kh3 + 2',
+      '4d6kh3 + 2d20kl1 + 4d6dl1 + 3d10dh',
+      '4d6kh3+2',
+      '4dF',
+      '50d6!>=2>=4',
+      '5d6',
+      '6d10>=8 + 5d6<3 + 4d6=6',
+      '6d6 + 1',
+      '8d10>7',
+      '8d10kh3>7',
+      '@missing + 1',
+      '@str',
+      'a > 1 and not b or c',
+      'a ? 1 : b ? 2 : 3',
+      'a or b and c',
+      'adv(2)',
+      'avg(1, 2, 6)',
+      'avg(2d6)',
+      'clamp(-3, 1, 10)',
+      'clamp(1, 2)',
+      'clamp(12, 1, 10)',
+      'clamp(5, 10, 1)',
+      'count(4d6, 1, 2)',
+      'count(5d6)',
+      'count(5d6, 6)',
+      'd6k',
+      'def a(x) = x; def b(x) = x;',
+      'def adv(x) = 2d20kh1 + x; adv()',
+      'def adv(x) = 2d20kh1 + x; adv(2) + adv(@atk)',
+      'def adv(x) = 2d20kh1 + x; adv(5)',
+      'def adv(x) = 2d20kh1 + x; def dis(x) = 2d20kl1 + x;',
+      'def f(n) = f(n) + 1d6; f(1)',
+      'def f(n) = f(n) + f(n); f(1)',
+      'def fact(n) = n <= 1 ? 1 : n * fact(n - 1); fact(5)',
+      'def hit(a, b) = a + b; def one() = 1; hit(one(), 2)',
+      'def one() = 1;',
+      'def one() = 1; 1d6',
+      'dis(@atk)',
+      'floor((2d4)d20 / 3) + 6',
+      'floor(1d6 / 2)',
+      'floor(x ? 1 : 2) + (y ? 3 : 4)',
+      'floor({1d4, 2}) ',
+      'foo(1d6)',
+      'highest(1000d6, 2) + count(1000d6)',
+      'highest(4d6)',
+      'highest(4d6, 1, 2)',
+      'highest(4d6, 3)',
+      'highest(5, 1)',
+      'let a = 1; let b = a + 1; b',
+      'let a = 2; let b = a * 3; a + b',
+      'let a = a + 1; a',
+      'let atk = 1d20 + @str; atk + atk',
+      'let atk = 1d20; atk + atk + @str',
+      'let atk = 1d20; atk = 20 ? 2d6 + 2d6 : 2d6',
+      'let b = 3; def twice(a) = a * 2; twice(b)',
+      'let str = 1; str + @str',
+      'let x = 1d20; x + x',
+      'let x = 1d6; x * x',
+      'let x = 1d6; x + x + @bonus',
+      'let x = 1d6; x + y',
+      'let x = 1d6; x > 2 and not x = 6 or x = 1',
+      'log(0)',
+      'log(8, 2)',
+      'lowest(4d6, 1.5)',
+      'lowest({1d6, 1d8, 1d10}, 2)',
+      'max(4, 2, 7)',
+      'max(4d6)',
+      'min()',
+      'min(3d6, 2)',
+      'min(4, 2, 7)',
+      'not x = 1 and y',
+      'one()',
+      'pow(2)',
+      'pow(2, 5)',
+      'sign(0 - 4)',
+      'sum(1, 2, 3)',
+      'sum(4d6kh3)',
+      'trunc(0 - 7 / 2)',
+      'unique(5d6)',
+      'x != 3 ? 1 : 2',
+      'x >= 15 ? 2d6 : 0',
+      'x ? 1 : 2',
+      '{10d6 ...5}',
+      '{1d20 + 5, 1d20 + 5}>=15',
+      '{1d20, 1d20}kh1',
+      '{1d6 ...100}',
+      '{1d6 ...3}',
+      '{1d6, 2d4}kh1',
+      '{2d6 ...3}',
+      '{4d6!!kh3, 2d20ro<3}'
+];
+
+const BinaryTypes = [
+  Ast.NodeType.Add, Ast.NodeType.Subtract, Ast.NodeType.Multiply, Ast.NodeType.Divide, Ast.NodeType.Modulo, Ast.NodeType.Exponent,
+  Ast.NodeType.Equal, Ast.NodeType.Greater, Ast.NodeType.GreaterOrEqual, Ast.NodeType.Less, Ast.NodeType.LessOrEqual,
+  Ast.NodeType.NotEqual, Ast.NodeType.And, Ast.NodeType.Or,
+];
+
+const ConditionTypes = [Ast.NodeType.Equal, Ast.NodeType.Greater, Ast.NodeType.Less];
+
+interface Structure {
+  type: Ast.NodeType;
+  attributes: any;
+  children: Structure[];
+}
+
+function structure(expression: Ast.ExpressionNode): Structure {
+  const children: Structure[] = [];
+  expression.forEachChild(child => { children.push(structure(child)); });
+  return { type: expression.type, attributes: expression.toJSON().attributes, children };
+}
+
+function parse(input: string): Ast.ExpressionNode {
+  const result = new DiceParser(input).parse();
+  expect(result.errors).toEqual([], input);
+  return result.root as Ast.ExpressionNode;
+}
+
+function node(type: Ast.NodeType, ...children: Ast.ExpressionNode[]): Ast.ExpressionNode {
+  const root = Ast.Factory.create(type);
+  children.forEach(child => root.addChild(child));
+  return root;
+}
+
+function number(value: number): Ast.ExpressionNode {
+  return Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', value);
+}
+
+// Builds random trees of the shapes the parser produces.
+class TreeBuilder {
+  constructor(private random: SeededRandomProvider) { }
+
+  expression(depth: number): Ast.ExpressionNode {
+    const pick = depth > 0 ? this.random.numberBetween(0, 9) : this.random.numberBetween(0, 2);
+    switch (pick) {
+      case 0: return number(this.random.numberBetween(0, 20));
+      case 1: return Ast.Factory.create(Ast.NodeType.Variable)
+        .setAttribute('name', 'x')
+        .setAttribute('external', this.random.numberBetween(0, 1) === 1);
+      case 2: return this.dice(depth);
+      case 3:
+      case 4:
+      case 5: return node(BinaryTypes[this.random.numberBetween(0, BinaryTypes.length - 1)],
+        this.expression(depth - 1), this.expression(depth - 1));
+      case 6: return node(Ast.NodeType.Negate, this.expression(depth - 1));
+      case 7: return node(Ast.NodeType.Not, this.expression(depth - 1));
+      case 8: return node(Ast.NodeType.Conditional, this.expression(depth - 1), this.expression(depth - 1), this.expression(depth - 1));
+      default: return this.modified(depth);
+    }
+  }
+
+  dice(depth: number): Ast.ExpressionNode {
+    const count = depth > 0 && this.random.numberBetween(0, 3) === 0 ? this.expression(depth - 1) : number(this.random.numberBetween(1, 9));
+    const sides = Ast.Factory.create(Ast.NodeType.DiceSides)
+      .setAttribute('value', this.random.numberBetween(0, 4) === 0 ? 'fate' : this.random.numberBetween(2, 20));
+    return node(Ast.NodeType.Dice, count, sides);
+  }
+
+  modified(depth: number): Ast.ExpressionNode {
+    const dice = this.dice(depth - 1);
+    const argument = this.random.numberBetween(0, 1) === 0 ? number(this.random.numberBetween(1, 6)) : this.expression(depth - 1);
+    switch (this.random.numberBetween(0, 3)) {
+      case 0: return node(Ast.NodeType.Keep, dice, argument).setAttribute('type', 'lowest');
+      case 1: return node(Ast.NodeType.Drop, dice, argument).setAttribute('type', 'highest');
+      case 2: return node(Ast.NodeType.Explode, dice, node(ConditionTypes[this.random.numberBetween(0, 2)], argument))
+        .setAttribute('compound', false)
+        .setAttribute('penetrate', false);
+      default: return node(ConditionTypes[this.random.numberBetween(0, 2)], dice, argument);
+    }
+  }
+}
+
+describe('DiceGenerator', () => {
+  describe('generate', () => {
+    it('keeps the parentheses that change the meaning ((1 + 2) * 3).', () => {
+      expect(new DiceGenerator().generate(parse('(1 + 2) * 3'))).toBe('(1 + 2) * 3');
+      expect(new DiceGenerator().generate(parse('1 - (2 - 3)'))).toBe('1 - (2 - 3)');
+      expect(new DiceGenerator().generate(parse('(((1 - 2)) - 3)'))).toBe('1 - 2 - 3');
+      expect(new DiceGenerator().generate(parse('-(1d6 + 1) * (-2)'))).toBe('-(1d6 + 1) * (-2)');
+    });
+    it('keeps comparisons after dice apart from dice modifiers ((2d6) != 3, 2d6 > 1 + 2).', () => {
+      expect(new DiceGenerator().generate(parse('(2d6) != 3'))).toBe('(2d6) != 3');
+      expect(new DiceGenerator().generate(parse('(2d6) > 1 + 2'))).toBe('2d6 > (1 + 2)');
+      expect(new DiceGenerator().generate(parse('(1 + 2d6) > 3'))).toBe('(1 + 2d6) > 3');
+      expect(new DiceGenerator().generate(parse('2d6kh(1 + 1)'))).toBe('2d6kh(1 + 1)');
+    });
+    it('parses every expression in the spec corpus back to the same tree.', () => {
+      const generator = new DiceGenerator();
+      Corpus.forEach(input => {
+        const expression = parse(input);
+        const output = generator.generate(expression);
+        expect(structure(parse(output))).toEqual(structure(expression), `${input} => ${output}`);
+      });
+    });
+    it('parses random trees back to the same tree.', () => {
+      const generator = new DiceGenerator();
+      const builder = new TreeBuilder(new SeededRandomProvider(19));
+      for (let x = 0; x < 500; x++) {
+        const expression = builder.expression(4);
+        const output = generator.generate(expression);
+        expect(structure(parse(output))).toEqual(structure(expression), output);
+      }
+    });
+    it('parses compact output back to the same tree.', () => {
+      const generator = new DiceGenerator({ spacing: 'compact' });
+      Corpus.forEach(input => {
+        const expression = parse(input);
+        const output = generator.generate(expression);
+        expect(structure(parse(output))).toEqual(structure(expression), `${input} => ${output}`);
+      });
+      const builder = new TreeBuilder(new SeededRandomProvider(23));
+      for (let x = 0; x < 200; x++) {
+        const expression = builder.expression(4);
+        const output = generator.generate(expression);
+        expect(structure(parse(output))).toEqual(structure(expression), output);
+      }
+    });
+  });
+});
@@ -29,12 +29,12 @@ describe('DiceGenerator', () => {
       const generator = new Generator.DiceGenerator();
       expect(generator.generate(exp)).toBe('10 / 2');
     });
-    it('correctly generates a exponentiation (10 ^ 2).', () => {
+    it('correctly generates a exponentiation (10 ** 2).', () => {
       const exp = Ast.Factory.create(Ast.NodeType.Exponent);
       exp.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 10));
       exp.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 2));
       const generator = new Generator.DiceGenerator();
-      expect(generator.generate(exp)).toBe('10 ^ 2');
+      expect(generator.generate(exp)).toBe('10 ** 2');
     });
     it('correctly generates a modulo (10 % 2).', () => {
       const exp = Ast.Factory.create(Ast.NodeType.Modulo);
@@ -0,0 +1,42 @@
+import * as Ast from '../../src/ast';
+import * as Generator from '../../src/generator';
+
+describe('DiceGenerator', () => {
+  describe('generate', () => {
+    it('correctly generates variables (str + @prof).', () => {
+      const exp = Ast.Factory.create(Ast.NodeType.Add);
+      exp.addChild(Ast.Factory.create(Ast.NodeType.Variable).setAttribute('name', 'str').setAttribute('external', false));
+      exp.addChild(Ast.Factory.create(Ast.NodeType.Variable).setAttribute('name', 'prof').setAttribute('external', true));
+
+      const generator = new Generator.DiceGenerator();
+      expect(generator.generate(exp)).toBe('str + @prof');
+    });
+    it('correctly generates a binding (let x = 5; x * 2).', () => {
+      const exp = Ast.Factory.create(Ast.NodeType.Let).setAttribute('name', 'x');
+      exp.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 5));
+
+      const body = Ast.Factory.create(Ast.NodeType.Multiply);
+      body.addChild(Ast.Factory.create(Ast.NodeType.Variable).setAttribute('name', 'x'));
+      body.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 2));
+      exp.addChild(body);
+
+      const generator = new Generator.DiceGenerator();
+      expect(generator.generate(exp)).toBe('let x = 5; x * 2');
+    });
+    it('correctly generates a macro definition (def twice(x) = x * 2; twice(3)).', () => {
+      const exp = Ast.Factory.create(Ast.NodeType.Define).setAttribute('name', 'twice').setAttribute('parameters', ['x']);
+
+      const body = Ast.Factory.create(Ast.NodeType.Multiply);
+      body.addChild(Ast.Factory.create(Ast.NodeType.Variable).setAttribute('name', 'x'));
+      body.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 2));
+      exp.addChild(body);
+
+      const call = Ast.Factory.create(Ast.NodeType.Function).setAttribute('name', 'twice');
+      call.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 3));
+      exp.addChild(call);
+
+      const generator = new Generator.DiceGenerator();
+      expect(generator.generate(exp)).toBe('def twice(x) = x * 2; twice(3)');
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { ExpressionNode, SourceSpan } from '../../src/ast';
+import * as Generator from '../../src/generator';
+import * as Parser from '../../src/parser';
+
+describe('DiceGenerator', () => {
+  describe('generateSourceMap', () => {
+    it('maps rendered output back to the input (4d6kh3+2).', () => {
+      const root = new Parser.DiceParser('4d6kh3+2').parse().root as ExpressionNode;
+      const generator = new Generator.DiceGenerator();
+      expect(generator.generate(root)).toBe('4d6kh3 + 2');
+
+      const mappings = generator.generateSourceMap(root);
+      expect(mappings.length).toBe(7);
+      expect(mappings[0].expression).toBe(root);
+      expect(mappings[0].output).toEqual(new SourceSpan(0, 10));
+      expect(mappings[0].input).toEqual(new SourceSpan(0, 8));
+
+      const two = mappings[mappings.length - 1];
+      expect(two.output).toEqual(new SourceSpan(9, 10));
+      expect(two.input).toEqual(new SourceSpan(7, 8));
+    });
+    it('skips nodes without a source span.', () => {
+      const root = new Parser.DiceParser('1 + 2').parse().root as ExpressionNode;
+      root.getChild(1).span = undefined;
+      const mappings = new Generator.DiceGenerator().generateSourceMap(root);
+      expect(mappings.length).toBe(2);
+    });
+  });
+});
@@ -1,3 +1,4 @@
 export * from './mock-lexer.class';
 export * from './mock-list-random-provider.class';
 export * from './mock-random-provider.class';
+export * from './roll-helpers';
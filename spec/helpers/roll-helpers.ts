@@ -0,0 +1,15 @@
+import { ExpressionNode } from '../../src/ast';
+import { DiceInterpreter, DiceResult } from '../../src/interpreter';
+import { InterpreterOptions } from '../../src/interpreter/interpreter-options.interface';
+import { DiceParser } from '../../src/parser';
+import { MockListRandomProvider } from './mock-list-random-provider.class';
+
+export function parse(input: string): ExpressionNode {
+  return new DiceParser(input).parse().root;
+}
+
+// Interprets the input with the given draws in place of random numbers.
+export function roll(input: string, draws: number[] = [], options?: InterpreterOptions): DiceResult {
+  const interpreter = new DiceInterpreter(null, new MockListRandomProvider(draws), null, options);
+  return interpreter.interpret(parse(input));
+}
@@ -0,0 +1,60 @@
+import * as Interpreter from '../../src/interpreter';
+import { MockRandomProvider, parse, roll } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('evaluate', () => {
+    it('evaluates numeric functions.', () => {
+      expect(roll('min(4, 2, 7)').total).toBe(2);
+      expect(roll('max(4, 2, 7)').total).toBe(7);
+      expect(roll('clamp(12, 1, 10)').total).toBe(10);
+      expect(roll('clamp(-3, 1, 10)').total).toBe(1);
+      expect(roll('pow(2, 5)').total).toBe(32);
+      expect(roll('log(8, 2)').total).toBe(3);
+      expect(roll('sign(0 - 4)').total).toBe(-1);
+      expect(roll('trunc(0 - 7 / 2)').total).toBe(-3);
+      expect(roll('sum(1, 2, 3)').total).toBe(6);
+      expect(roll('avg(1, 2, 6)').total).toBe(3);
+    });
+    it('uses each die of a dice argument (max(4d6), sum(4d6kh3), avg(2d6)).', () => {
+      expect(roll('max(4d6)', [3, 5, 1, 2]).total).toBe(5);
+      expect(roll('sum(4d6kh3)', [3, 5, 1, 2]).total).toBe(10);
+      expect(roll('avg(2d6)', [3, 4]).total).toBe(3.5);
+      expect(roll('min(3d6, 2)', [3, 5, 4]).total).toBe(2);
+    });
+    it('adds up the highest and lowest dice (highest(4d6, 3), lowest({1d6, 1d8, 1d10}, 2)).', () => {
+      expect(roll('highest(4d6, 3)', [3, 5, 1, 2]).total).toBe(10);
+      expect(roll('highest(4d6)', [3, 5, 1, 2]).total).toBe(5);
+      expect(roll('lowest({1d6, 1d8, 1d10}, 2)', [3, 8, 1]).total).toBe(4);
+    });
+    it('counts faces and unique faces (count(5d6, 6), unique(5d6)).', () => {
+      expect(roll('count(5d6, 6)', [6, 2, 6, 3, 2]).total).toBe(2);
+      expect(roll('unique(5d6)', [6, 2, 6, 3, 2]).total).toBe(3);
+      expect(roll('count(5d6)', [6, 2, 6, 3, 2]).total).toBe(5);
+    });
+    it('reports arguments that are not dice (highest(5, 1)).', () => {
+      const res = roll('highest(5, 1)');
+      expect(res.total).toBe(0);
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Invalid argument for highest: expected dice or a group.');
+    });
+    it('reports counts that are not whole numbers (lowest(4d6, 1.5)).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(3));
+      const res = interpreter.interpret(parse('lowest(4d6, 1.5)'));
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Invalid argument for lowest: 1.5. Expected a whole number.');
+    });
+    it('reports invalid numeric arguments (log(0), clamp(5, 10, 1)).', () => {
+      expect(roll('log(0)').errors[0].message).toBe('Invalid argument for log: 0. Expected a positive number.');
+      expect(roll('clamp(5, 10, 1)').errors[0].message).toBe('Invalid arguments for clamp: 10 is greater than 1.');
+    });
+    it('reports the wrong number of arguments (clamp(1, 2), pow(2), min()).', () => {
+      expect(roll('clamp(1, 2)').errors[0].message).toBe('Invalid number of arguments for clamp: 2. Expected: 3.');
+      expect(roll('pow(2)').errors[0].message).toBe('Invalid number of arguments for pow: 1. Expected: 2.');
+      expect(roll('min()').errors[0].message).toBe('Invalid number of arguments for min: 0. Expected: at least 1.');
+      expect(roll('count(4d6, 1, 2)', [1, 2, 3, 4]).errors[0].message)
+        .toBe('Invalid number of arguments for count: 3. Expected: 1 to 2.');
+      expect(roll('highest(4d6, 1, 2)', [1, 2, 3, 4]).errors[0].message)
+        .toBe('Invalid number of arguments for highest: 3. Expected: 1 to 2.');
+    });
+  });
+});
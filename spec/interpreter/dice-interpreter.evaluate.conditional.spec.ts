@@ -0,0 +1,77 @@
+import * as Interpreter from '../../src/interpreter';
+import { MockListRandomProvider, parse, roll } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('evaluate', () => {
+    it('evaluates the true branch of a conditional (1d20 + 5 >= 15 ? 2d6 : 0).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([12, 3, 4]));
+      const res = interpreter.interpret(parse('1d20 + 5 >= 15 ? 2d6 : 0'));
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(7);
+    });
+    it('evaluates the false branch without rolling the true branch (1d20 >= 15 ? 2d6 : 1d4).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([3, 2]));
+      const res = interpreter.interpret(parse('1d20 >= 15 ? 2d6 : 1d4'));
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(2);
+      expect(res.renderedExpression).toBe('[3] >= 15 ? 2d6 : [2]');
+    });
+    it('compares the total of a pool in a condition (2d6 > 7 ? 1 : 0).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([4, 5]));
+      const res = interpreter.interpret(parse('2d6 > 7 ? 1 : 0'));
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(1);
+    });
+    it('treats non-zero values as true (x ? 1 : 2).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      expect(interpreter.interpret(parse('x ? 1 : 2'), { x: 3 }).total).toBe(1);
+      expect(interpreter.interpret(parse('x ? 1 : 2'), { x: 0 }).total).toBe(2);
+    });
+    it('evaluates and, or and not (a > 1 and not b or c).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      expect(interpreter.interpret(parse('a > 1 and not b or c'), { a: 2, b: 0, c: 0 }).total).toBe(1);
+      expect(interpreter.interpret(parse('a > 1 and not b or c'), { a: 2, b: 1, c: 0 }).total).toBe(0);
+      expect(interpreter.interpret(parse('a > 1 and not b or c'), { a: 0, b: 1, c: 1 }).total).toBe(1);
+    });
+    it('short-circuits and and or (0 and 1d6).', () => {
+      const random = new MockListRandomProvider([]);
+      const interpreter = new Interpreter.DiceInterpreter(null, random);
+      const res = interpreter.interpret(parse('0 and 1d6 or 1'));
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(1);
+    });
+    it('counts no failures for the dice of a branch that was not taken (1 ? 1 : 10d6, 1d6 > 3 ? 2d6 : 5d6).', () => {
+      const skipped = roll('1 ? 1 : 10d6');
+      expect([skipped.successes, skipped.failures]).toEqual([0, 0]);
+      const taken = roll('1d6 > 3 ? 2d6 : 5d6', [5, 2, 3]);
+      expect([taken.successes, taken.failures]).toEqual([0, 3]);
+    });
+    it('counts no failures for dice skipped by and and or (0 and 5d6, 1 or 5d6).', () => {
+      ['0 and 5d6', '1 or 5d6'].forEach(input => {
+        const res = roll(input);
+        expect([res.total, res.successes, res.failures]).toEqual([input === '1 or 5d6' ? 1 : 0, 0, 0], input);
+      });
+    });
+    it('evaluates != in a condition (x != 3 ? 1 : 2).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      expect(interpreter.interpret(parse('x != 3 ? 1 : 2'), { x: 3 }).total).toBe(2);
+      expect(interpreter.interpret(parse('x != 3 ? 1 : 2'), { x: 4 }).total).toBe(1);
+    });
+    it('compares a roll with != when it is set apart from the dice (1d20 != 20 ? 1 : 0).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([20, 5]));
+      const first = interpreter.interpret(parse('1d20 != 20 ? 1 : 0'));
+      expect(first.errors.length).toBe(0);
+      expect(first.total).toBe(0);
+      expect(first.renderedExpression).toBe('([20]) != 20 ? 1 : 0');
+      expect(interpreter.interpret(parse('1d20 != 20 ? 1 : 0')).total).toBe(1);
+    });
+    it('evaluates != outside of a condition (@x != 3, 2 != 3).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      const res = interpreter.interpret(parse('@x != 3'), { x: 3 });
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(0);
+      expect(interpreter.interpret(parse('@x != 3'), { x: 4 }).total).toBe(1);
+      expect(interpreter.interpret(parse('2 != 3')).total).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { roll } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('evaluate', () => {
+    it('rolls a face from the list for each die (3d{0, 0, 1, 1, 2, 3}).', () => {
+      const res = roll('3d{0, 0, 1, 1, 2, 3}', [5, 0, 4]);
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(5);
+      expect(res.renderedExpression).toBe('[3, 0, 2]');
+    });
+    it('records the drawn index and the face it stands for (1d{-1, 0, 0, 1}).', () => {
+      const res = roll('1d{-1, 0, 0, 1}', [0]);
+      expect(res.total).toBe(-1);
+      expect(res.draws[0].min).toBe(0);
+      expect(res.draws[0].max).toBe(3);
+      expect(res.draws[0].value).toBe(0);
+      expect(res.draws[0].face).toBe(-1);
+      expect(res.breakdown[0].sides).toEqual([-1, 0, 0, 1]);
+    });
+    it('keeps and counts successes on custom faces (4d{1, 2, 5}kh2, 4d{1, 2, 5}>=2).', () => {
+      expect(roll('4d{1, 2, 5}kh2', [0, 2, 1, 2]).total).toBe(10);
+      expect(roll('4d{1, 2, 5}>=2', [0, 2, 1, 2]).successes).toBe(3);
+    });
+    it('explodes on the highest face by default (2d{0, 1, 3}!).', () => {
+      const res = roll('2d{0, 1, 3}!', [2, 0, 1]);
+      expect(res.total).toBe(4);
+      expect(res.renderedExpression).toBe('[3, 0, 1]!');
+    });
+    it('refuses to explode dice that show the highest face on every roll (2d{3, 3}!).', () => {
+      const res = roll('2d{3, 3}!', [0, 1]);
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Condition to roll again includes all dice faces and would run forever.');
+    });
+    it('keeps, explodes and rerolls dice whose faces are zero or below (3d{0, 0, 1}kh1, 3d{0, 0, 1}!, 3d{-1, 0, 1}r).', () => {
+      const keep = roll('3d{0, 0, 1}kh1', [0, 1, 2]);
+      expect(keep.total).toBe(1);
+      expect(keep.renderedExpression).toBe('[0, 0, 1]kh1');
+      expect(keep.breakdown.filter(die => die.dropped).length).toBe(2);
+
+      const explode = roll('3d{0, 0, 1}!', [0, 1, 2, 0]);
+      expect(explode.total).toBe(1);
+      expect(explode.renderedExpression).toBe('[0, 0, 1, 0]!');
+
+      const reroll = roll('3d{-1, 0, 1}r', [0, 1, 2, 1]);
+      expect(reroll.errors.length).toBe(0);
+      expect(reroll.total).toBe(-1);
+      expect(reroll.breakdown.map(die => die.value)).toEqual([-1, 0, 0]);
+    });
+    it('rolls dice registered by name (2dBoost).', () => {
+      const res = roll('2dBoost', [1, 3], { customDice: { Boost: [0, 0, 1, 2] } });
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(2);
+    });
+    it('reports dice names that are not registered (2dBoost).', () => {
+      const res = roll('2dBoost', []);
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Unknown dice: Boost.');
+      expect(res.total).toBe(0);
+    });
+  });
+});
@@ -112,6 +112,88 @@ describe('DiceInterpreter', () => {
 
       expect(dice.getChildCount()).toBe(5);
     });
+    it('evaluates a compounding dice (4d6!!).', () => {
+      const exp = Ast.Factory.create(Ast.NodeType.Explode)
+        .setAttribute('compound', true)
+        .setAttribute('penetrate', false);
+
+      const dice = Ast.Factory.create(Ast.NodeType.Dice);
+      dice.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 4));
+      dice.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 6));
+
+      exp.addChild(dice);
+
+      const mockList = new MockListRandomProvider();
+      mockList.numbers.push(
+        6, 2, 3, 4, // This 6 should get compounded into the same die.
+        6, 2
+      );
+
+      const interpreter = new Interpreter.DiceInterpreter(null, mockList);
+      const errors: Interpreter.InterpreterError[] = [];
+      expect(interpreter.evaluate(exp, errors)).toBe(23);
+
+      expect(dice.getChildCount()).toBe(4);
+      expect(dice.getChild(0).getAttribute('value')).toBe(14);
+      expect(dice.getChild(0).getAttribute('rolls')).toEqual([6, 6, 2]);
+      expect(dice.getChild(1).getAttribute('value')).toBe(2);
+      expect(dice.getChild(1).getAttribute('rolls')).toEqual([2]);
+    });
+    it('evaluates a compounding penetrating dice (4d6!!p).', () => {
+      const exp = Ast.Factory.create(Ast.NodeType.Explode)
+        .setAttribute('compound', true)
+        .setAttribute('penetrate', true);
+
+      const dice = Ast.Factory.create(Ast.NodeType.Dice);
+      dice.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 4));
+      dice.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 6));
+
+      exp.addChild(dice);
+
+      const mockList = new MockListRandomProvider();
+      mockList.numbers.push(
+        1, 2, 3, 6, // This 6 should get compounded into the same die.
+        6
+      );
+
+      const interpreter = new Interpreter.DiceInterpreter(null, mockList);
+      const errors: Interpreter.InterpreterError[] = [];
+      expect(interpreter.evaluate(exp, errors)).toBe(17);
+
+      expect(dice.getChildCount()).toBe(4);
+      expect(dice.getChild(3).getAttribute('value')).toBe(11);
+      expect(dice.getChild(3).getAttribute('rolls')).toEqual([6, 5]);
+    });
+    it('keeps compounded dice as a single die (4d6!!kh1).', () => {
+      const keep = Ast.Factory.create(Ast.NodeType.Keep)
+        .setAttribute('type', 'highest');
+
+      const exp = Ast.Factory.create(Ast.NodeType.Explode)
+        .setAttribute('compound', true)
+        .setAttribute('penetrate', false);
+
+      const dice = Ast.Factory.create(Ast.NodeType.Dice);
+      dice.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 4));
+      dice.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 6));
+
+      exp.addChild(dice);
+      keep.addChild(exp);
+      keep.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 1));
+
+      const mockList = new MockListRandomProvider();
+      mockList.numbers.push(
+        5, 6, 1, 4,
+        3
+      );
+
+      const interpreter = new Interpreter.DiceInterpreter(null, mockList);
+      const errors: Interpreter.InterpreterError[] = [];
+      expect(interpreter.evaluate(keep, errors)).toBe(9);
+
+      expect(dice.getChildCount()).toBe(4);
+      expect(dice.getChild(1).getAttribute('drop')).toBe(false);
+      expect(dice.getChild(0).getAttribute('drop')).toBe(true);
+    });
     it('errors if condition includes all dice faces (4d6!>=1).', () => {
       const exp = Ast.Factory.create(Ast.NodeType.Explode)
         .setAttribute('compound', false)
@@ -83,5 +83,55 @@ describe('DiceInterpreter', () => {
       expect(res).toBeFalsy();
       expect(errors.length).toBe(1);
     });
+    it('returns an error when a function is called with the wrong number of arguments (floor(5, 2)).', () => {
+      const func = Ast.Factory.create(Ast.NodeType.Function).setAttribute('name', 'floor');
+      func.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 5));
+      func.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 2));
+
+      const interpreter = new Interpreter.DiceInterpreter();
+      const errors: Interpreter.InterpreterError[] = [];
+      const res = interpreter.evaluate(func, errors);
+      expect(res).toBe(0);
+      expect(errors.length).toBe(1);
+      expect(errors[0].message).toBe('Invalid number of arguments for floor: 2. Expected: 1.');
+    });
+    it('does not share custom functions between interpreters.', () => {
+      const func = Ast.Factory.create(Ast.NodeType.Function).setAttribute('name', 'double');
+      func.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 4));
+
+      const functions = new Interpreter.FunctionDefinitionList();
+      functions['double'] = (interpreter, node, errs) => interpreter.evaluate(node.getChild(0), errs) * 2;
+      const custom = new Interpreter.DiceInterpreter(functions);
+      const plain = new Interpreter.DiceInterpreter();
+
+      const errors: Interpreter.InterpreterError[] = [];
+      expect(custom.evaluate(func.copy(), errors)).toBe(8);
+      expect(plain.evaluate(func.copy(), errors)).toBe(0);
+      expect(errors.length).toBe(1);
+      expect(Interpreter.DefaultFunctionRegistry.has('double')).toBe(false);
+    });
+    it('overrides a default function with a registry scope.', () => {
+      const func = Ast.Factory.create(Ast.NodeType.Function).setAttribute('name', 'floor');
+      func.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 2.5));
+
+      const registry = Interpreter.DefaultFunctionRegistry.createScope().register('floor', () => 42);
+      const interpreter = new Interpreter.DiceInterpreter(registry);
+      const errors: Interpreter.InterpreterError[] = [];
+      expect(interpreter.evaluate(func, errors)).toBe(42);
+    });
+  });
+  describe('interpret', () => {
+    it('layers per-call functions over the interpreter functions.', () => {
+      const func = Ast.Factory.create(Ast.NodeType.Function).setAttribute('name', 'bonus');
+
+      const tenant = new Interpreter.FunctionDefinitionList();
+      tenant['bonus'] = () => 1;
+      const call = new Interpreter.FunctionDefinitionList();
+      call['bonus'] = () => 5;
+      const interpreter = new Interpreter.DiceInterpreter(tenant);
+
+      expect(interpreter.interpret(func, {}, call).total).toBe(5);
+      expect(interpreter.interpret(func).total).toBe(1);
+    });
   });
 });
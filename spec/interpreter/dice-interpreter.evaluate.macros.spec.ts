@@ -0,0 +1,45 @@
+import * as Interpreter from '../../src/interpreter';
+import { MockListRandomProvider, MockRandomProvider, parse } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('evaluate', () => {
+    it('expands a macro for each call (def adv(x) = 2d20kh1 + x; adv(2) + adv(@atk)).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([5, 17, 3, 9]));
+      const res = interpreter.interpret(parse('def adv(x) = 2d20kh1 + x; adv(2) + adv(@atk)'), { atk: 4 });
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(32);
+      expect(res.breakdown.map(die => die.value)).toEqual([5, 17, 3, 9]);
+      expect(res.breakdown.filter(die => die.dropped).length).toBe(2);
+    });
+    it('evaluates arguments where the macro is called (let b = 3; def twice(a) = a * 2; twice(b)).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      const res = interpreter.interpret(parse('let b = 3; def twice(a) = a * 2; twice(b)'));
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(6);
+    });
+    it('supports recursion that ends (def fact(n) = n <= 1 ? 1 : n * fact(n - 1); fact(5)).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      const res = interpreter.interpret(parse('def fact(n) = n <= 1 ? 1 : n * fact(n - 1); fact(5)'));
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(120);
+    });
+    it('limits the depth of recursion (def f(n) = f(n) + 1d6; f(1)).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(1), null, { maxMacroDepth: 10 });
+      const res = interpreter.interpret(parse('def f(n) = f(n) + 1d6; f(1)'));
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Macro calls nested too deeply. Maximum depth allowed: 10.');
+    });
+    it('stops at the first error when a macro calls itself more than once (def f(n) = f(n) + f(n); f(1)).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      const res = interpreter.interpret(parse('def f(n) = f(n) + f(n); f(1)'));
+      expect(res.errors.length).toBe(1);
+      expect(res.total).toBe(0);
+    });
+    it('checks the number of arguments (def adv(x) = 2d20kh1 + x; adv()).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(1));
+      const res = interpreter.interpret(parse('def adv(x) = 2d20kh1 + x; adv()'));
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Invalid number of arguments for adv: 0. Expected: 1.');
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { roll } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('evaluate', () => {
+    it('rolls percentile dice from 1 to 100 (1d%, 1d00).', () => {
+      const res = roll('1d% + 1d00', [100, 47]);
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(147);
+      expect(res.draws.map(draw => draw.max)).toEqual([100, 100]);
+    });
+    it('shows the tens and units of percentile dice in the breakdown (1d%).', () => {
+      const res = roll('2d%', [100, 47]);
+      expect(res.breakdown.map(die => [die.tens, die.units])).toEqual([[[0], 0], [[40], 7]]);
+    });
+    it('keeps the lowest result with bonus dice (1d%b2).', () => {
+      const res = roll('1d%b2', [47, 2, 8]);
+      expect(res.total).toBe(27);
+      expect(res.breakdown[0].tens).toEqual([40, 20, 80]);
+      expect(res.breakdown[0].units).toBe(7);
+      expect(res.draws.map(draw => draw.source)).toEqual(['roll', 'tens', 'tens']);
+    });
+    it('keeps the highest result with penalty dice, reading 00 and 0 as 100 (1d%p1).', () => {
+      const res = roll('1d%p1', [30, 0]);
+      expect(res.total).toBe(100);
+      expect(res.breakdown[0].tens).toEqual([30, 0]);
+    });
+  });
+});
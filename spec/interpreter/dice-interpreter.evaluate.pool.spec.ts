@@ -0,0 +1,43 @@
+import { roll } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('evaluate', () => {
+    it('counts doubled faces as two successes (5d10>=7t).', () => {
+      const res = roll('5d10>=7t', [10, 7, 3, 10, 1]);
+      expect(res.errors.length).toBe(0);
+      expect(res.successes).toBe(3);
+      expect(res.pool).toEqual(jasmine.objectContaining({ net: 5, doubled: 2 }));
+      expect(res.breakdown.map(die => !!die.doubled)).toEqual([true, false, false, true, false]);
+    });
+    it('only doubles faces that are successes (3d10>=9t>=8).', () => {
+      const res = roll('3d10>=9t>=8', [8, 9, 10]);
+      expect(res.pool).toEqual(jasmine.objectContaining({ net: 4 }));
+    });
+    it('subtracts a success for each subtracting face (5d10>=6f1).', () => {
+      const res = roll('5d10>=6f1', [10, 1, 1, 6, 7]);
+      expect(res.successes).toBe(3);
+      expect(res.pool).toEqual(jasmine.objectContaining({ subtracted: 2, net: 1, botch: false }));
+    });
+    it('botches when no die succeeds and one shows a subtracting face (5d10>=6f).', () => {
+      const res = roll('5d10>=6f', [5, 1, 1, 3, 2]);
+      expect(res.pool).toEqual(jasmine.objectContaining({ net: -2, botch: true }));
+    });
+    it('glitches when more than half the dice show a glitch face (6d6>=5g).', () => {
+      const glitch = roll('6d6>=5g', [1, 1, 1, 1, 5, 2]);
+      expect(glitch.pool).toEqual(jasmine.objectContaining({ glitches: 4, glitch: true, botch: false }));
+      expect(roll('6d6>=5g', [1, 1, 1, 6, 5, 2]).pool).toEqual(jasmine.objectContaining({ glitch: false }));
+
+      const critical = roll('6d6>=5g', [1, 1, 1, 1, 3, 2]);
+      expect(critical.pool).toEqual(jasmine.objectContaining({ glitch: true, botch: true }));
+    });
+    it('counts the net successes of every pool in the expression (4d10>=7t10 + 2d10>=7).', () => {
+      const res = roll('4d10>=7t10 + 2d10>=7', [10, 1, 1, 1, 8, 2]);
+      expect(res.pool).toEqual(jasmine.objectContaining({ net: 3, glitch: false }));
+    });
+    it('leaves the total and dice counts as they are without pool modifiers (5d10>=7).', () => {
+      const res = roll('5d10>=7', [10, 7, 3, 10, 1]);
+      expect(res.total).toBe(roll('5d10>=7t', [10, 7, 3, 10, 1]).total);
+      expect(res.pool).toBeUndefined();
+    });
+  });
+});
@@ -28,6 +28,8 @@ describe('DiceInterpreter', () => {
       const errors: Interpreter.InterpreterError[] = [];
       expect(interpreter.evaluate(exp, errors)).toBe(21);
       expect(dice.getChildCount()).toBe(4);
+      expect(dice.getChild(3).getAttribute('rerolls')).toEqual([2, 1]);
+      expect(dice.getChild(0).getAttribute('rerolls')).toBeUndefined();
     });
     it('evaluates rerolling once dice (4d6ro<3).', () => {
       const exp = Ast.Factory.create(Ast.NodeType.Reroll)
@@ -18,5 +18,15 @@ describe('DiceInterpreter', () => {
       interpreter.evaluate(face, errors);
       expect(errors.length).toBeGreaterThanOrEqual(1);
     });
+    it('exposes the source span of the failing node (unknown function).', () => {
+      const func = Ast.Factory.create(Ast.NodeType.Function).setAttribute('name', 'unknown');
+      func.span = new Ast.SourceSpan(4, 14);
+
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(4));
+      const errors: Interpreter.InterpreterError[] = [];
+      interpreter.evaluate(func, errors);
+      expect(errors.length).toBe(1);
+      expect(errors[0].span).toEqual(func.span);
+    });
   });
 });
@@ -0,0 +1,50 @@
+import * as Interpreter from '../../src/interpreter';
+import { MockListRandomProvider, parse } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('evaluate', () => {
+    it('rolls a bound value once (let x = 1d20; x + x).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([7, 20]));
+      const res = interpreter.interpret(parse('let x = 1d20; x + x'));
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(14);
+    });
+    it('reads variables from the context (1d20 + str + @prof).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([10]));
+      const res = interpreter.interpret(parse('1d20 + str + @prof'), { str: 3, prof: 2 });
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(15);
+    });
+    it('prefers bindings over the context unless the name is prefixed (let str = 1; str + @str).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      const res = interpreter.interpret(parse('let str = 1; str + @str'), { str: 10 });
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(11);
+    });
+    it('lets later bindings refer to earlier ones (let a = 2; let b = a * 3; a + b).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      const res = interpreter.interpret(parse('let a = 2; let b = a * 3; a + b'));
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(8);
+    });
+    it('does not let a binding see itself (let a = a + 1; a).', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      const res = interpreter.interpret(parse('let a = a + 1; a'), { a: 4 });
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(5);
+    });
+    it('reports unknown variables (1d20 + str).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([10]));
+      const res = interpreter.interpret(parse('1d20 + str'));
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Unknown variable: str.');
+      expect(res.total).toBe(10);
+    });
+    it('does not keep the context between calls.', () => {
+      const interpreter = new Interpreter.DiceInterpreter();
+      interpreter.interpret(parse('@str'), { str: 3 });
+      const res = interpreter.interpret(parse('@str'));
+      expect(res.errors.length).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { DiceGenerator } from '../../src/generator';
+import * as Interpreter from '../../src/interpreter';
+import { ReplayRandomProvider, SeededRandomProvider } from '../../src/random';
+import { MockListRandomProvider, MockRandomProvider, parse } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('interpret', () => {
+    it('sums large pools by face without a node per die (6d6).', () => {
+      const random = new MockListRandomProvider([1, 6, 3, 6, 1, 6]);
+      const interpreter = new Interpreter.DiceInterpreter(null, random, null, { aggregateDiceAbove: 5 });
+      const res = interpreter.interpret(parse('6d6 + 1'));
+      const dice = res.reducedExpression.getChild(0);
+      expect(res.total).toBe(24);
+      expect(dice.getChildCount()).toBe(0);
+      expect(dice.getAttribute('faces')).toEqual([[1, 2], [3, 1], [6, 3]]);
+      expect(res.renderedExpression).toBe('[1×2, 3×1, 6×3] + 1');
+      expect(res.failures).toBe(6);
+      expect(res.draws.map(draw => draw.value)).toEqual([1, 6, 3, 6, 1, 6]);
+    });
+    it('replays an aggregated pool from its draws (20d6).', () => {
+      const options = { aggregateDiceAbove: 10 };
+      const res = new Interpreter.DiceInterpreter(null, new SeededRandomProvider(4), null, options).interpret(parse('20d6'));
+      expect(res.draws.length).toBe(20);
+      const replay = new Interpreter.DiceInterpreter(null, new ReplayRandomProvider(res.draws), null, options).interpret(parse('20d6'));
+      expect(replay.total).toBe(res.total);
+      expect(replay.reducedExpression.getAttribute('faces')).toEqual(res.reducedExpression.getAttribute('faces'));
+    });
+    it('breaks down an aggregated pool by face (4d6).', () => {
+      const random = new MockListRandomProvider([2, 5, 2, 2]);
+      const interpreter = new Interpreter.DiceInterpreter(null, random, null, { aggregateDiceAbove: 1 });
+      const res = interpreter.interpret(parse('4d6'));
+      expect(res.breakdown.map(die => [die.value, die.count])).toEqual([[2, 3], [5, 1]]);
+      expect(res.breakdown[0].sides).toBe(6);
+      expect(res.breakdown[0].dropped).toBe(false);
+    });
+    it('rolls pools at or below the aggregate size die by die (5d6).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(4), null, { aggregateDiceAbove: 5 });
+      const res = interpreter.interpret(parse('5d6'));
+      expect(res.reducedExpression.getChildCount()).toBe(5);
+      expect(res.breakdown.length).toBe(5);
+    });
+    it('rolls every die of a pool with modifiers (10d6kh2, 10d6>4).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(5), null, { aggregateDiceAbove: 1 });
+      const keep = interpreter.interpret(parse('10d6kh2'));
+      expect(keep.total).toBe(10);
+      expect(keep.breakdown.length).toBe(10);
+      const success = interpreter.interpret(parse('10d6>4'));
+      expect(success.successes).toBe(10);
+    });
+    it('passes aggregated dice to functions (highest(1000d6, 2)).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(3), null, { aggregateDiceAbove: 100 });
+      const res = interpreter.interpret(parse('highest(1000d6, 2) + count(1000d6)'));
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(1006);
+    });
+    it('counts aggregated dice against the dice budget (100d6).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(2), null, { aggregateDiceAbove: 10, maxDice: 50 });
+      const res = interpreter.interpret(parse('100d6'));
+      expect(res.errors.length).toBe(1);
+      expect(res.total).toBe(100);
+    });
+    it('truncates long lists of rolls when rendering (20d6).', () => {
+      const generator = new DiceGenerator({ maxListLength: 3 });
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(4), generator);
+      expect(interpreter.interpret(parse('20d6')).renderedExpression).toBe('[4, 4, 4, ... 17 more]');
+    });
+  });
+});
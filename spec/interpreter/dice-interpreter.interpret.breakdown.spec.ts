@@ -0,0 +1,83 @@
+import { NodeType, SourceSpan } from '../../src/ast';
+import * as Interpreter from '../../src/interpreter';
+import { MockListRandomProvider, parse } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('interpret', () => {
+    it('describes every die (2d6).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([3, 5]));
+      const res = interpreter.interpret(parse('2d6'));
+      expect(res.breakdown.length).toBe(2);
+      expect(res.breakdown[0]).toEqual({
+        sides: 6,
+        value: 3,
+        originalValue: 3,
+        rerolls: [],
+        dropped: false,
+        exploded: false,
+        explosion: false,
+        rerolled: false,
+        success: false,
+        criticalSuccess: false,
+        criticalFailure: false,
+        modifiers: {},
+        span: new SourceSpan(0, 3),
+      });
+      expect(res.breakdown[1].value).toBe(5);
+    });
+    it('marks dropped dice and the modifier that dropped them (3d6kh2).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([2, 6, 4]));
+      const res = interpreter.interpret(parse('3d6kh2'));
+      const dropped = res.breakdown.filter(die => die.dropped);
+      expect(dropped.length).toBe(1);
+      expect(dropped[0].value).toBe(2);
+      expect(dropped[0].modifiers.dropped).toEqual({ type: NodeType.Keep, span: new SourceSpan(0, 6) });
+      expect(res.breakdown.filter(die => !die.dropped).every(die => !die.modifiers.dropped)).toBe(true);
+    });
+    it('marks exploded dice and the dice they added (2d6!).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([6, 2, 3]));
+      const res = interpreter.interpret(parse('2d6!'));
+      expect(res.breakdown.map(die => die.value)).toEqual([6, 2, 3]);
+      expect(res.breakdown.map(die => die.exploded)).toEqual([true, false, false]);
+      expect(res.breakdown.map(die => die.explosion)).toEqual([false, false, true]);
+      expect((res.breakdown[0].modifiers.exploded as Interpreter.DieModifier).type).toBe(NodeType.Explode);
+    });
+    it('lists the rolls added into compounded dice (2d6!!).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([6, 3, 6, 2]));
+      const res = interpreter.interpret(parse('2d6!!'));
+      expect(res.breakdown.map(die => die.value)).toEqual([14, 3]);
+      expect(res.breakdown.map(die => die.rolls)).toEqual([[6, 6, 2], [3]]);
+      expect(res.breakdown[0].exploded).toBe(true);
+    });
+    it('leaves out rolls for dice that do not compound (2d6!).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([6, 2, 3]));
+      const res = interpreter.interpret(parse('2d6!'));
+      expect(res.breakdown.every(die => die.rolls === undefined)).toBe(true);
+    });
+    it('keeps the original value of rerolled dice (2d6r<3).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([1, 4, 2, 5]));
+      const res = interpreter.interpret(parse('2d6r<3'));
+      expect(res.breakdown[0].value).toBe(5);
+      expect(res.breakdown[0].originalValue).toBe(1);
+      expect(res.breakdown[0].rerolls).toEqual([1, 2]);
+      expect(res.breakdown[0].rerolled).toBe(true);
+      expect(res.breakdown[1].rerolled).toBe(false);
+      expect(res.breakdown[1].originalValue).toBe(4);
+    });
+    it('marks successes and criticals (3d20cs>19>10).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([20, 5, 12]));
+      const res = interpreter.interpret(parse('3d20cs>19>10'));
+      expect(res.breakdown.map(die => die.success)).toEqual([true, false, true]);
+      expect(res.breakdown.map(die => die.criticalSuccess)).toEqual([true, false, false]);
+      expect((res.breakdown[0].modifiers.success as Interpreter.DieModifier).type).toBe(NodeType.Greater);
+      expect((res.breakdown[0].modifiers.critical as Interpreter.DieModifier).type).toBe(NodeType.Critical);
+    });
+    it('drops every die in a dropped group element ({1d6, 2d4}kh1).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([5, 1, 2]));
+      const res = interpreter.interpret(parse('{1d6, 2d4}kh1'));
+      expect(res.breakdown.map(die => die.dropped)).toEqual([false, true, true]);
+      expect(res.breakdown.map(die => die.sides)).toEqual([6, 4, 4]);
+      expect((res.breakdown[1].modifiers.dropped as Interpreter.DieModifier).type).toBe(NodeType.Keep);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import * as Interpreter from '../../src/interpreter';
+import { MockRandomProvider, parse } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('interpret', () => {
+    it('stops rolling once the total dice budget is spent ({10d6 ...5}).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(2), null, { maxDice: 25 });
+      const res = interpreter.interpret(parse('{10d6 ...5}'));
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Too many dice rolled. Maximum allowed: 25.');
+      expect(res.total).toBe(50);
+    });
+    it('counts exploded dice against the dice budget (2d6!).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(6), null, { maxDice: 10 });
+      const res = interpreter.interpret(parse('2d6!'));
+      expect(res.errors.length).toBe(1);
+      expect(res.total).toBe(60);
+    });
+    it('limits the explosion chain of each die (1d6!).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(6), null, { maxExplodeDepth: 4 });
+      const res = interpreter.interpret(parse('1d6! + 1'));
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Explosion chain too long. Maximum depth allowed: 4.');
+      expect(res.total).toBe(31);
+    });
+    it('limits reroll attempts for each die (1d6r<3).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(1), null, { maxRerolls: 3 });
+      const res = interpreter.interpret(parse('1d6r<3'));
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Too many rerolls. Maximum attempts allowed: 3.');
+      expect(res.breakdown[0].rerolls.length).toBe(3);
+    });
+    it('rejects expressions with too many nodes before rolling (1d6 + 1d6).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(3), null, { maxNodes: 6 });
+      const res = interpreter.interpret(parse('1d6 + 1d6'));
+      expect(res.errors.length).toBe(1);
+      expect(res.draws.length).toBe(0);
+      expect(res.total).toBe(0);
+    });
+    it('counts repeated nodes against the node budget ({1d6 ...100}).', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockRandomProvider(3), null, { maxNodes: 50 });
+      const res = interpreter.interpret(parse('{1d6 ...100}'));
+      expect(res.errors.length).toBe(1);
+      expect(res.draws.length).toBeLessThan(100);
+    });
+    it('stops once the evaluation time is exceeded (1d6!).', () => {
+      const random = new MockRandomProvider(6);
+      const interpreter = new Interpreter.DiceInterpreter(null, random, null, { maxEvaluationTime: 20 });
+      const res = interpreter.interpret(parse('1d6!'));
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Evaluation took too long. Maximum time allowed: 20ms.');
+    });
+  });
+});
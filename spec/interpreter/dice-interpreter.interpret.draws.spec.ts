@@ -0,0 +1,39 @@
+import { SourceSpan } from '../../src/ast';
+import * as Interpreter from '../../src/interpreter';
+import { ReplayRandomProvider, SeededRandomProvider } from '../../src/random';
+import { MockListRandomProvider, parse } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('interpret', () => {
+    it('logs every draw with its source (2d6!r + 1dF).', () => {
+      const random = new MockListRandomProvider([6, 1, 2, 3, 0]);
+      const interpreter = new Interpreter.DiceInterpreter(null, random);
+      const res = interpreter.interpret(parse('2d6!r + 1dF'));
+      expect(res.errors.length).toBe(0);
+      expect(res.draws).toEqual([
+        { min: 1, max: 6, value: 6, source: 'roll', sides: 6, die: 0, span: new SourceSpan(0, 3) },
+        { min: 1, max: 6, value: 1, source: 'roll', sides: 6, die: 1, span: new SourceSpan(0, 3) },
+        { min: 1, max: 6, value: 2, source: 'explode', sides: 6, die: 0, span: new SourceSpan(0, 3) },
+        { min: 1, max: 6, value: 3, source: 'reroll', sides: 6, die: 1, span: new SourceSpan(0, 3) },
+        { min: -1, max: 1, value: 0, source: 'roll', sides: 'fate', die: 0, span: new SourceSpan(8, 11) },
+      ]);
+    });
+    it('starts a new log for each call.', () => {
+      const interpreter = new Interpreter.DiceInterpreter(null, new MockListRandomProvider([3, 4]));
+      const first = interpreter.interpret(parse('1d6'));
+      const second = interpreter.interpret(parse('1d6'));
+      expect(first.draws.length).toBe(1);
+      expect(second.draws.length).toBe(1);
+      expect(second.draws[0].value).toBe(4);
+    });
+    it('re-creates an identical result from the log ({4d6!!kh3, 2d20ro<3}).', () => {
+      const exp = parse('{4d6!!kh3, 2d20ro<3}');
+      const original = new Interpreter.DiceInterpreter(null, new SeededRandomProvider(5)).interpret(exp);
+      const stored = JSON.parse(JSON.stringify(original.draws));
+      const replayed = new Interpreter.DiceInterpreter(null, new ReplayRandomProvider(stored)).interpret(exp);
+      expect(replayed.total).toBe(original.total);
+      expect(replayed.renderedExpression).toBe(original.renderedExpression);
+      expect(replayed.draws.map(draw => draw.value)).toEqual(original.draws.map(draw => draw.value));
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { roll } from '../helpers';
+
+describe('DiceInterpreter', () => {
+  describe('interpret', () => {
+    const pbta = '2d6 + 1 bands miss, 7 partial, 10 hit over 7';
+    const coc = '1d100 bands 1 critical, 2 extreme, 13 hard, 31 success, 61 failure, 96 fumble under 60';
+
+    it('reports the band the total falls in and the margin over the target.', () => {
+      expect([roll(pbta, [1, 2]).band, roll(pbta, [1, 2]).margin]).toEqual(['miss', -3]);
+      expect([roll(pbta, [3, 3]).band, roll(pbta, [3, 3]).margin]).toEqual(['partial', 0]);
+      expect([roll(pbta, [6, 6]).band, roll(pbta, [6, 6]).margin]).toEqual(['hit', 6]);
+    });
+    it('measures the margin under the target for roll-under bands.', () => {
+      const hard = roll(coc, [25]);
+      expect(hard.total).toBe(25);
+      expect(hard.band).toBe('hard');
+      expect(hard.margin).toBe(35);
+      expect(roll(coc, [1]).band).toBe('critical');
+      expect([roll(coc, [99]).band, roll(coc, [99]).margin]).toEqual(['fumble', -39]);
+    });
+    it('puts totals below every band in the first band (4dF bands -2 poor, 0 fair, 3 great).', () => {
+      const res = roll('4dF bands -2 poor, 0 fair, 3 great', [-1, -1, -1, 0]);
+      expect(res.total).toBe(-3);
+      expect(res.band).toBe('poor');
+      expect(res.margin).toBeUndefined();
+    });
+    it('uses the outcome bands in the options when the expression has none.', () => {
+      const outcomeBands = { bands: [{ label: 'fail' }, { label: 'pass', from: 12 }], target: 12 };
+      const res = roll('1d20 + 2', [15], { outcomeBands });
+      expect(res.band).toBe('pass');
+      expect(res.margin).toBe(5);
+      expect(roll('1d20 bands low, 11 high', [15], { outcomeBands }).band).toBe('high');
+    });
+    it('reports no band without outcome bands (1d20).', () => {
+      const res = roll('1d20', [15]);
+      expect(res.band).toBeUndefined();
+      expect(res.margin).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { GenesysDice, GenesysSymbolRules } from '../../src/symbols';
+import { roll } from '../helpers';
+
+const options = { symbolicDice: GenesysDice, symbolRules: GenesysSymbolRules };
+
+describe('DiceInterpreter', () => {
+  describe('interpret', () => {
+    it('tallies and cancels the symbols of narrative dice (2dA + 1dP + 2dD).', () => {
+      // Ability: success+success, advantage. Proficiency: triumph. Difficulty: failure+threat, threat.
+      const res = roll('2dA + 1dP + 2dD', [3, 4, 11, 7, 3], options);
+      expect(res.errors.length).toBe(0);
+      expect(res.total).toBe(0);
+      expect(res.renderedExpression).toBe('[success+success, advantage] + [triumph] + [failure+threat, threat]');
+      expect(res.symbols).toEqual(jasmine.objectContaining({
+        rolled: { success: 2, advantage: 1, triumph: 1, failure: 1, threat: 2 },
+        net: { success: 2, triumph: 1, threat: 1 },
+      }));
+    });
+    it('shows the symbols of each die in the breakdown (1dB).', () => {
+      const res = roll('1dB', [0], options);
+      expect(res.renderedExpression).toBe('[blank]');
+      expect(res.breakdown[0].symbols).toEqual([]);
+      expect(res.symbols).toEqual(jasmine.objectContaining({ net: {} }));
+      expect(res.draws[0].sides).toBe('B');
+    });
+    it('adds numbers to the total while tallying symbols (2dS + 3).', () => {
+      const res = roll('2dS + 3', [2, 4], options);
+      expect(res.total).toBe(3);
+      expect(res.symbols).toEqual(jasmine.objectContaining({ net: { failure: 1, threat: 1 } }));
+    });
+    it('reports modifiers on narrative dice but keeps their symbols (2dA kh1, 2dA!, 2dA r).', () => {
+      ['2dA kh1', '2dA!', '2dA r'].forEach(input => {
+        const res = roll(input, [3, 4], options);
+        expect(res.errors.map(error => error.message)).toEqual(['Symbolic dice cannot be modified.']);
+        expect(res.renderedExpression).toContain('[success+success, advantage]');
+        expect(res.symbols && res.symbols.rolled).toEqual({ success: 2, advantage: 1 });
+      });
+    });
+    it('leaves out symbols for expressions without narrative dice (1d6).', () => {
+      expect(roll('1d6', [2], options).symbols).toBeUndefined();
+    });
+  });
+});
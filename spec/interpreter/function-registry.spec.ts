@@ -0,0 +1,45 @@
+import { FunctionRegistry } from '../../src/interpreter';
+
+describe('FunctionRegistry', () => {
+  const one = () => 1;
+  const two = () => 2;
+
+  describe('get', () => {
+    it('falls through to the parent registry.', () => {
+      const parent = new FunctionRegistry().register('one', one, { arity: 0, description: 'Returns one.' });
+      const registry = parent.createScope();
+      const fn = registry.get('one');
+      expect(fn && fn.definition).toBe(one);
+      expect(fn && fn.arity).toBe(0);
+      expect(fn && fn.description).toBe('Returns one.');
+    });
+    it('prefers functions registered in the scope over the parent.', () => {
+      const parent = new FunctionRegistry().register('fn', one);
+      const registry = parent.createScope({ fn: two });
+      const fn = registry.get('fn');
+      expect(fn && fn.definition).toBe(two);
+      const parentFn = parent.get('fn');
+      expect(parentFn && parentFn.definition).toBe(one);
+    });
+  });
+  describe('unregister', () => {
+    it('removes a function from its own layer.', () => {
+      const registry = new FunctionRegistry().register('one', one);
+      registry.unregister('one');
+      expect(registry.has('one')).toBe(false);
+    });
+    it('hides a parent function without removing it from the parent.', () => {
+      const parent = new FunctionRegistry().register('one', one);
+      const registry = parent.createScope().unregister('one');
+      expect(registry.has('one')).toBe(false);
+      expect(parent.has('one')).toBe(true);
+    });
+  });
+  describe('names', () => {
+    it('lists visible functions from every layer.', () => {
+      const parent = new FunctionRegistry().register('one', one).register('two', two);
+      const registry = parent.createScope({ three: one }).unregister('two');
+      expect(registry.names()).toEqual(['one', 'three']);
+    });
+  });
+});
@@ -113,14 +113,18 @@ describe('DiceLexer', () => {
       const lexer = new Lexer.DiceLexer('2.23');
       expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 0, '2.23'));
     });
-    it('throws on unrecognized tokens', () => {
-      const lexer = new Lexer.DiceLexer('test_face');
+    it('returns an error token for unrecognized characters', () => {
+      const lexer = new Lexer.DiceLexer('test_face $');
       lexer.getNextToken();
-      expect(() => { lexer.getNextToken(); }).toThrow();
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Error, 4, '_'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 5, 'face'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Error, 10, '$'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Terminator, 11));
     });
-    it('throws on too short ellipsis', () => {
+    it('returns an error token for too short ellipsis', () => {
       const lexer = new Lexer.DiceLexer('..');
-      expect(() => { lexer.getNextToken(); }).toThrow();
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Error, 0, '..'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Terminator, 2));
     });
     it('skips over whitespace.', () => {
       const lexer = new Lexer.DiceLexer('2  d\t10 \t + \t\t 3');
@@ -131,6 +135,45 @@ describe('DiceLexer', () => {
       expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 15, '3'));
       expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Terminator, 16));
     });
+    it('returns correct tokens for variables and bindings', () => {
+      const lexer = new Lexer.DiceLexer('let x = @str; x');
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 0, 'let'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 4, 'x'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Equals, 6, '='));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.At, 8, '@'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 9, 'str'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Semicolon, 12, ';'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 14, 'x'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Terminator, 15));
+    });
+    it('returns correct tokens for conditions', () => {
+      const lexer = new Lexer.DiceLexer('not x and y or z ? 1 : 2');
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Not, 0, 'not'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 4, 'x'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.And, 6, 'and'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 10, 'y'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Or, 12, 'or'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 15, 'z'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Question, 17, '?'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 19, '1'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Colon, 21, ':'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 23, '2'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Terminator, 24));
+    });
+    it('returns a not equal token only when != is set apart (1d20 != 20, 1d20!=20).', () => {
+      const lexer = new Lexer.DiceLexer('1d20 != 20 1d20!=20');
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 0, '1'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 1, 'd'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 2, '20'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.NotEqual, 5, '!='));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 8, '20'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 11, '1'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Identifier, 12, 'd'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 13, '20'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Exclamation, 15, '!'));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Equals, 16, '='));
+      expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 17, '20'));
+    });
     it('successfully parses an identifier at the end of a string.', () => {
       const lexer = new Lexer.DiceLexer('2kl');
       expect(lexer.getNextToken()).toEqual(new Lexer.Token(Lexer.TokenType.Number, 0, '2'));
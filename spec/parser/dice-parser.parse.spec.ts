@@ -0,0 +1,93 @@
+import { ExpressionNode, SourceSpan } from '../../src/ast';
+import { NodeType } from '../../src/ast/node-type.enum';
+import * as Parser from '../../src/parser';
+
+describe('DiceParser', () => {
+  describe('parse', () => {
+    it('attaches source spans to every node (4d6kh3 + 2).', () => {
+      const result = new Parser.DiceParser('4d6kh3 + 2').parse();
+      expect(result.errors.length).toBe(0);
+
+      const add = result.root as ExpressionNode;
+      expect(add.type).toBe(NodeType.Add);
+      expect(add.span).toEqual(new SourceSpan(0, 10));
+
+      const keep = add.getChild(0);
+      expect(keep.type).toBe(NodeType.Keep);
+      expect(keep.span).toEqual(new SourceSpan(0, 6));
+      expect(keep.getChild(1).span).toEqual(new SourceSpan(5, 6));
+
+      const dice = keep.getChild(0);
+      expect(dice.span).toEqual(new SourceSpan(0, 3));
+      expect(dice.getChild(0).span).toEqual(new SourceSpan(0, 1));
+      expect(dice.getChild(1).span).toEqual(new SourceSpan(2, 3));
+
+      expect(add.getChild(1).span).toEqual(new SourceSpan(9, 10));
+    });
+    it('always sets a root, even without an expression to parse ("", ")", "+").', () => {
+      ['', ')', '+'].forEach(input => {
+        const result = new Parser.DiceParser(input).parse();
+        expect(result.errors.length).toBe(1, input);
+        expect(result.root.type).toBe(NodeType.Number, input);
+        expect(result.root.getAttribute('value')).toBe(0, input);
+      });
+    });
+    it('includes brackets in the span of a bracketed expression ((1 + 2) * 3).', () => {
+      const result = new Parser.DiceParser('(1 + 2) * 3').parse();
+      const multiply = result.root as ExpressionNode;
+      expect(multiply.span).toEqual(new SourceSpan(0, 11));
+      expect(multiply.getChild(0).span).toEqual(new SourceSpan(0, 7));
+    });
+    it('gives implied nodes an empty span (d6k).', () => {
+      const result = new Parser.DiceParser('d6k').parse();
+      const keep = result.root as ExpressionNode;
+      expect(keep.span).toEqual(new SourceSpan(0, 3));
+      expect(keep.getChild(0).getChild(0).span).toEqual(new SourceSpan(0, 0));
+      expect(keep.getChild(1).span).toEqual(new SourceSpan(3, 3));
+    });
+    it('attaches source spans to functions and groups (floor({1d4, 2}) ).', () => {
+      const result = new Parser.DiceParser('floor({1d4, 2}) ').parse();
+      const func = result.root as ExpressionNode;
+      expect(func.span).toEqual(new SourceSpan(0, 15));
+      expect(func.getChild(0).span).toEqual(new SourceSpan(6, 14));
+    });
+    it('attaches the token span to errors.', () => {
+      const result = new Parser.DiceParser('2 + )').parse();
+      expect(result.errors.length).toBeGreaterThanOrEqual(1);
+      expect(result.errors[0].span).toEqual(new SourceSpan(4, 5));
+    });
+    it('reports unrecognized input without throwing (1d6 + $).', () => {
+      const result = new Parser.DiceParser('1d6 + $').parse();
+      expect(result.errors.length).toBe(2);
+      expect(result.errors[0].message).toBe('Error at position 6. Unrecognized input "$".');
+      expect(result.errors[0].span).toEqual(new SourceSpan(6, 7));
+    });
+    it('skips unrecognized input inside a factor (1d6 + $4).', () => {
+      const result = new Parser.DiceParser('1d6 + $4').parse();
+      expect(result.errors.length).toBe(1);
+      const add = result.root as ExpressionNode;
+      expect(add.getChild(1).getAttribute('value')).toBe(4);
+    });
+    it('reports every mistake in one input (1d6 # 2 + (3 * ) + 4d6k# ..).', () => {
+      const result = new Parser.DiceParser('1d6 # 2 + (3 * ) + 4d6k# ..').parse();
+      expect(result.errors.map(error => error.token.position)).toEqual([4, 15, 23, 25]);
+    });
+    it('reports leftover tokens after a complete expression (1d6 2).', () => {
+      const result = new Parser.DiceParser('1d6 2').parse();
+      expect(result.errors.length).toBe(1);
+      expect(result.errors[0].token.position).toBe(4);
+    });
+    it('reads dice and modifiers in any case (4D6KL3 + 2DF).', () => {
+      const result = new Parser.DiceParser('4D6KL3 + 2DF').parse();
+      expect(result.errors.length).toBe(0);
+
+      const keep = (result.root as ExpressionNode).getChild(0);
+      expect(keep.type).toBe(NodeType.Keep);
+      expect(keep.getAttribute('type')).toBe('lowest');
+      expect(keep.getChild(0).type).toBe(NodeType.Dice);
+
+      const fate = (result.root as ExpressionNode).getChild(1);
+      expect(fate.getChild(1).getAttribute('value')).toBe('fate');
+    });
+  });
+});
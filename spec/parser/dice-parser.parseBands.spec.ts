@@ -0,0 +1,54 @@
+import { NodeType } from '../../src/ast/node-type.enum';
+import * as Parser from '../../src/parser';
+
+describe('DiceParser', () => {
+  describe('parseBands', () => {
+    it('parses outcome bands after the whole expression (2d6 + 1 bands miss, 7 partial, 10 hit over 7).', () => {
+      const result = new Parser.DiceParser('2d6 + 1 bands miss, 7 partial, 10 hit over 7').parse();
+      expect(result.errors.length).toBe(0);
+      expect(result.root.type).toBe(NodeType.Bands);
+      expect(result.root.getChild(0).type).toBe(NodeType.Add);
+      expect(result.root.getAttribute('bands')).toEqual([{ label: 'miss' }, { label: 'partial', from: 7 }, { label: 'hit', from: 10 }]);
+      expect(result.root.getAttribute('target')).toBe(7);
+      expect(result.root.getAttribute('under')).toBe(false);
+    });
+    it('parses bands straight after dice and negative totals (4dF bands -4 terrible, 0 fair under -1).', () => {
+      const result = new Parser.DiceParser('4dF bands -4 terrible, 0 fair under -1').parse();
+      expect(result.errors.length).toBe(0);
+      expect(result.root.getChild(0).type).toBe(NodeType.Dice);
+      expect(result.root.getAttribute('bands')).toEqual([{ label: 'terrible', from: -4 }, { label: 'fair', from: 0 }]);
+      expect(result.root.getAttribute('target')).toBe(-1);
+      expect(result.root.getAttribute('under')).toBe(true);
+    });
+    it('applies bands to the body of a binding (let x = 1d6; x bands low, 4 high).', () => {
+      const result = new Parser.DiceParser('let x = 1d6; x bands low, 4 high').parse();
+      expect(result.errors.length).toBe(0);
+      expect(result.root.type).toBe(NodeType.Bands);
+      expect(result.root.getChild(0).type).toBe(NodeType.Let);
+    });
+    it('reports bands out of order (1d6 bands 4 high, 2 low).', () => {
+      const result = new Parser.DiceParser('1d6 bands 4 high, 2 low').parse();
+      expect(result.errors.map(error => error.message)).toEqual(['Outcome bands must be in ascending order.']);
+    });
+    it('reports a band after the first without a lowest total (1d6 bands low, high).', () => {
+      const result = new Parser.DiceParser('1d6 bands low, high').parse();
+      expect(result.errors.map(error => error.message)).toEqual(['Only the first outcome band can leave out its lowest total.']);
+    });
+    it('reports bands that do not end the expression ((2d6 bands miss, 7 hit) + 1, 2d6 bands miss, 7 hit + 1).', () => {
+      ['(2d6 bands miss, 7 hit) + 1', '2d6 bands miss, 7 hit + 1', 'let x = 1d6 bands low, 4 high; x'].forEach(input => {
+        const result = new Parser.DiceParser(input).parse();
+        expect(result.errors.map(error => error.message)).toEqual(['Outcome bands must end the expression.'], input);
+      });
+    });
+    it('reports bands in the body of a macro (def f(x) = x bands a, 3 b;).', () => {
+      const result = new Parser.DiceParser('def f(x) = x bands a, 3 b; f(2)').parse();
+      expect(result.errors.map(error => error.message)).toEqual(['Outcome bands must end the expression.']);
+    });
+    it('reports a target without bands (2d6 over 7, (1d20 under 12) + 1).', () => {
+      expect(new Parser.DiceParser('2d6 over 7').parse().errors.map(error => error.message))
+        .toEqual(['Missing outcome bands before over.']);
+      expect(new Parser.DiceParser('(1d20 under 12) + 1').parse().errors.map(error => error.message))
+        .toEqual(['Missing outcome bands before under.']);
+    });
+  });
+});
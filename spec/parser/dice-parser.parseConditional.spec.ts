@@ -0,0 +1,89 @@
+import { SourceSpan } from '../../src/ast';
+import { NodeType } from '../../src/ast/node-type.enum';
+import * as Parser from '../../src/parser';
+import { ParseResult } from '../../src/parser/parse-result.class';
+
+describe('DiceParser', () => {
+  describe('parseConditional', () => {
+    it('can correctly parse a conditional (x >= 15 ? 2d6 : 0).', () => {
+      const parser = new Parser.DiceParser('x >= 15 ? 2d6 : 0');
+      const result = new ParseResult();
+      const exp = parser.parseConditional(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.Conditional);
+      expect(exp.getChildCount()).toBe(3);
+      expect(exp.span).toEqual(new SourceSpan(0, 17));
+      expect(exp.getChild(0).type).toBe(NodeType.GreaterOrEqual);
+      expect(exp.getChild(1).type).toBe(NodeType.Dice);
+      expect(exp.getChild(2).type).toBe(NodeType.Number);
+    });
+    it('nests conditionals to the right (a ? 1 : b ? 2 : 3).', () => {
+      const parser = new Parser.DiceParser('a ? 1 : b ? 2 : 3');
+      const result = new ParseResult();
+      const exp = parser.parseConditional(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.Conditional);
+      expect(exp.getChild(2).type).toBe(NodeType.Conditional);
+    });
+    it('binds and more tightly than or (a or b and c).', () => {
+      const parser = new Parser.DiceParser('a or b and c');
+      const result = new ParseResult();
+      const exp = parser.parseConditional(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.Or);
+      expect(exp.getChild(0).type).toBe(NodeType.Variable);
+      expect(exp.getChild(1).type).toBe(NodeType.And);
+    });
+    it('binds not more loosely than comparisons (not x = 1 and y).', () => {
+      const parser = new Parser.DiceParser('not x = 1 and y');
+      const result = new ParseResult();
+      const exp = parser.parseConditional(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.And);
+      expect(exp.getChild(0).type).toBe(NodeType.Not);
+      expect(exp.getChild(0).getChild(0).type).toBe(NodeType.Equal);
+    });
+    it('parses != between expressions ((1d20) != 20).', () => {
+      const parser = new Parser.DiceParser('(1d20) != 20');
+      const result = new ParseResult();
+      const exp = parser.parseConditional(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.NotEqual);
+      expect(exp.getChild(0).type).toBe(NodeType.Dice);
+      expect(exp.getChild(1).getAttribute('value')).toBe(20);
+    });
+    it('parses != set apart from dice as a comparison (1d20 != 20 ? 1 : 0).', () => {
+      const parser = new Parser.DiceParser('1d20 != 20 ? 1 : 0');
+      const result = new ParseResult();
+      const exp = parser.parseConditional(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.Conditional);
+      expect(exp.getChild(0).type).toBe(NodeType.NotEqual);
+      expect(exp.getChild(0).getChild(0).type).toBe(NodeType.Dice);
+      expect(exp.getChild(0).getChild(1).getAttribute('value')).toBe(20);
+    });
+    it('keeps != directly after dice as an exploding modifier (4d6!=6).', () => {
+      const parser = new Parser.DiceParser('4d6!=6');
+      const result = new ParseResult();
+      const exp = parser.parseConditional(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.Explode);
+      expect(exp.getChild(1).type).toBe(NodeType.Equal);
+    });
+    it('parses conditionals inside brackets and function arguments (floor(x ? 1 : 2) + (y ? 3 : 4)).', () => {
+      const parser = new Parser.DiceParser('floor(x ? 1 : 2) + (y ? 3 : 4)');
+      const result = new ParseResult();
+      const exp = parser.parseConditional(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.Add);
+      expect(exp.getChild(0).getChild(0).type).toBe(NodeType.Conditional);
+      expect(exp.getChild(1).type).toBe(NodeType.Conditional);
+    });
+    it('reports a missing colon (x ? 1).', () => {
+      const parser = new Parser.DiceParser('x ? 1');
+      const result = new ParseResult();
+      parser.parseConditional(result);
+      expect(result.errors.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { ExpressionNode, SourceSpan } from '../../src/ast';
+import { NodeType } from '../../src/ast/node-type.enum';
+import * as Parser from '../../src/parser';
+import { ParseResult } from '../../src/parser/parse-result.class';
+
+describe('DiceParser', () => {
+  describe('parseDefine', () => {
+    it('parses a definition and the expression after it (def adv(x) = 2d20kh1 + x; adv(5)).', () => {
+      const parser = new Parser.DiceParser('def adv(x) = 2d20kh1 + x; adv(5)');
+      const result = new ParseResult();
+      const exp = parser.parseDefine(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.Define);
+      expect(exp.getAttribute('name')).toBe('adv');
+      expect(exp.getAttribute('parameters')).toEqual(['x']);
+      expect(exp.span).toEqual(new SourceSpan(0, 32));
+
+      const body = exp.getChild(0);
+      expect(body.type).toBe(NodeType.Add);
+      expect(body.getChild(1).type).toBe(NodeType.Variable);
+      expect(body.getChild(1).getAttribute('name')).toBe('x');
+
+      const call = exp.getChild(1);
+      expect(call.type).toBe(NodeType.Function);
+      expect(call.getAttribute('name')).toBe('adv');
+    });
+    it('parses several parameters, or none (def hit(a, b) = a + b; def one() = 1; hit(one(), 2)).', () => {
+      const result = new Parser.DiceParser('def hit(a, b) = a + b; def one() = 1; hit(one(), 2)').parse();
+      expect(result.errors.length).toBe(0);
+      const root = result.root as ExpressionNode;
+      expect(root.getAttribute('parameters')).toEqual(['a', 'b']);
+      expect(root.getChild(1).type).toBe(NodeType.Define);
+      expect(root.getChild(1).getAttribute('parameters')).toEqual([]);
+    });
+    it('parses a list of definitions with nothing after them (def a(x) = x; def b(x) = x;).', () => {
+      const result = new Parser.DiceParser('def a(x) = x; def b(x) = x;').parse();
+      expect(result.errors.length).toBe(0);
+      const root = result.root as ExpressionNode;
+      expect(root.getChildCount()).toBe(2);
+      expect(root.getChild(1).getChildCount()).toBe(1);
+    });
+    it('reports a missing parameter list (def adv = 1d20; adv).', () => {
+      const result = new Parser.DiceParser('def adv = 1d20; adv').parse();
+      expect(result.errors.length).toBeGreaterThan(0);
+      expect(result.errors[0].token.position).toBe(8);
+    });
+  });
+});
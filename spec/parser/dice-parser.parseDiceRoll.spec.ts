@@ -142,5 +142,56 @@ describe('DiceParser', () => {
       const dice = parser.parseDiceRoll(result);
       expect(result.errors.length).toBeGreaterThanOrEqual(1);
     });
+    it('can correctly parse a dice roll with a list of faces (3d{-1, 0, 2}).', () => {
+      const parser = new Parser.DiceParser('3d{-1, 0, 2}');
+      const result = new Parser.ParseResult();
+      const dice = parser.parseDiceRoll(result);
+      expect(result.errors.length).toBe(0);
+      expect(dice.getChild(1).type).toBe(NodeType.DiceSides);
+      expect(dice.getChild(1).getAttribute('values')).toEqual([-1, 0, 2]);
+    });
+    it('can correctly parse a named custom dice roll (2dBoost).', () => {
+      const lexer = new MockLexer([
+        new Token(TokenType.Number, 0, '2'),
+        new Token(TokenType.Identifier, 1, 'dBoost')
+      ]);
+      const parser = new Parser.DiceParser(lexer);
+      const result = new Parser.ParseResult();
+      const dice = parser.parseDiceRoll(result);
+      expect(result.errors.length).toBe(0);
+      expect(dice.getChild(1).type).toBe(NodeType.DiceSides);
+      expect(dice.getChild(1).getAttribute('name')).toBe('Boost');
+    });
+    it('can correctly parse percentile dice (1d%, 2d00).', () => {
+      ['1d%', '2d00'].forEach(input => {
+        const result = new Parser.ParseResult();
+        const dice = new Parser.DiceParser(input).parseDiceRoll(result);
+        expect(result.errors.length).toBe(0);
+        expect(dice.getChild(1).getAttribute('value')).toBe(100);
+        expect(dice.getChild(1).getAttribute('percentile')).toBe(input.substring(2));
+      });
+    });
+    it('can correctly parse bonus and penalty dice (1d%b2, 1d00p).', () => {
+      const result = new Parser.ParseResult();
+      const bonus = new Parser.DiceParser('1d%b2').parseDiceRoll(result);
+      const penalty = new Parser.DiceParser('1d00p').parseDiceRoll(result);
+      expect(result.errors.length).toBe(0);
+      expect(bonus.getChild(1).getAttribute('bonus')).toBe(2);
+      expect(penalty.getChild(1).getAttribute('penalty')).toBe(1);
+    });
+    it('reports dice that are not written with a d (3g, 2x, 3gk).', () => {
+      ['3g', '2x', '3gk'].forEach(input => {
+        const result = new Parser.ParseResult();
+        new Parser.DiceParser(input).parseDiceRoll(result);
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0].message).toBe(`Unknown dice type ${input.substring(1)}. Must be (d|dF|d{...}) or a registered dice name.`);
+      });
+    });
+    it('reports a list of faces that is not closed (3d{1, 2).', () => {
+      const parser = new Parser.DiceParser('3d{1, 2');
+      const result = new Parser.ParseResult();
+      parser.parseDiceRoll(result);
+      expect(result.errors.length).toBe(1);
+    });
   });
 });
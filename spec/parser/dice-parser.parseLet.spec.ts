@@ -0,0 +1,53 @@
+import { ExpressionNode, SourceSpan } from '../../src/ast';
+import { NodeType } from '../../src/ast/node-type.enum';
+import * as Parser from '../../src/parser';
+import { ParseResult } from '../../src/parser/parse-result.class';
+
+describe('DiceParser', () => {
+  describe('parseLet', () => {
+    it('parses an expression without bindings (1d20 + str).', () => {
+      const parser = new Parser.DiceParser('1d20 + str');
+      const result = new ParseResult();
+      const exp = parser.parseLet(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.Add);
+      expect(exp.getChild(1).type).toBe(NodeType.Variable);
+      expect(exp.getChild(1).getAttribute('name')).toBe('str');
+      expect(exp.getChild(1).getAttribute('external')).toBe(false);
+    });
+    it('parses a binding and its body (let atk = 1d20 + @str; atk + atk).', () => {
+      const parser = new Parser.DiceParser('let atk = 1d20 + @str; atk + atk');
+      const result = new ParseResult();
+      const exp = parser.parseLet(result);
+      expect(result.errors.length).toBe(0);
+      expect(exp.type).toBe(NodeType.Let);
+      expect(exp.getAttribute('name')).toBe('atk');
+      expect(exp.span).toEqual(new SourceSpan(0, 32));
+
+      const value = exp.getChild(0);
+      expect(value.type).toBe(NodeType.Add);
+      expect(value.getChild(1).type).toBe(NodeType.Variable);
+      expect(value.getChild(1).getAttribute('name')).toBe('str');
+      expect(value.getChild(1).getAttribute('external')).toBe(true);
+      expect(value.getChild(1).span).toEqual(new SourceSpan(17, 21));
+
+      const body = exp.getChild(1);
+      expect(body.type).toBe(NodeType.Add);
+      expect(body.getChild(0).type).toBe(NodeType.Variable);
+      expect(body.getChild(0).getAttribute('name')).toBe('atk');
+    });
+    it('parses nested bindings (let a = 1; let b = a + 1; b).', () => {
+      const result = new Parser.DiceParser('let a = 1; let b = a + 1; b').parse();
+      expect(result.errors.length).toBe(0);
+      const exp = result.root as ExpressionNode;
+      expect(exp.type).toBe(NodeType.Let);
+      expect(exp.getChild(1).type).toBe(NodeType.Let);
+      expect(exp.getChild(1).getAttribute('name')).toBe('b');
+      expect(exp.getChild(1).getChild(1).type).toBe(NodeType.Variable);
+    });
+    it('reports a missing semicolon (let a = 1 a).', () => {
+      const result = new Parser.DiceParser('let a = 1 a').parse();
+      expect(result.errors.length).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { NodeType } from '../../src/ast/node-type.enum';
+import { Token, TokenType } from '../../src/lexer';
+import * as Parser from '../../src/parser';
+import { MockLexer } from '../helpers';
+
+describe('DiceParser', () => {
+  describe('parsePool', () => {
+    it('can correctly parse each pool modifier (t, f, g).', () => {
+      [['t', 'double'], ['f', 'subtract'], ['g', 'glitch']].forEach(([letter, type]) => {
+        const lexer = new MockLexer([
+          new Token(TokenType.Identifier, 0, letter)
+        ]);
+        const parser = new Parser.DiceParser(lexer);
+        const result = new Parser.ParseResult();
+        const mod = parser.parsePool(result);
+        expect(result.errors.length).toBe(0);
+        expect(mod.type).toBe(NodeType.Pool);
+        expect(mod.getAttribute('type')).toBe(type);
+        expect(mod.getChildCount()).toBe(0);
+      });
+    });
+    it('can correctly parse a pool modifier with a single face (t10).', () => {
+      const lexer = new MockLexer([
+        new Token(TokenType.Identifier, 0, 't'),
+        new Token(TokenType.Number, 1, '10')
+      ]);
+      const parser = new Parser.DiceParser(lexer);
+      const result = new Parser.ParseResult();
+      const mod = parser.parsePool(result);
+      expect(result.errors.length).toBe(0);
+      expect(mod.getChild(0).type).toBe(NodeType.Equal);
+      expect(mod.getChild(0).getChild(0).getAttribute('value')).toBe(10);
+    });
+    it('can correctly parse pool modifiers after a success condition (10d10>=7t10f<3g).', () => {
+      const result = new Parser.DiceParser('10d10>=7t10f<3g').parse();
+      expect(result.errors.length).toBe(0);
+      const glitch = result.root;
+      expect(glitch.type).toBe(NodeType.Pool);
+      expect(glitch.getAttribute('type')).toBe('glitch');
+      const subtract = glitch.getChild(0);
+      expect(subtract.getAttribute('type')).toBe('subtract');
+      expect(subtract.getChild(1).type).toBe(NodeType.Less);
+      const double = subtract.getChild(0);
+      expect(double.getAttribute('type')).toBe('double');
+      expect(double.getChild(0).type).toBe(NodeType.GreaterOrEqual);
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { RecordingRandomProvider } from '../../src/random';
+import { MockListRandomProvider } from '../helpers';
+
+describe('RecordingRandomProvider', () => {
+  describe('numberBetween', () => {
+    it('returns and records numbers from the wrapped provider.', function () {
+      const random = new RecordingRandomProvider(new MockListRandomProvider([4, 1]));
+      expect(random.numberBetween(1, 6)).toBe(4);
+      expect(random.numberBetween(-1, 1)).toBe(1);
+      expect(random.draws).toEqual([
+        { min: 1, max: 6, value: 4 },
+        { min: -1, max: 1, value: 1 },
+      ]);
+    });
+  });
+  describe('clear', () => {
+    it('forgets recorded draws.', function () {
+      const random = new RecordingRandomProvider(new MockListRandomProvider([4]));
+      random.numberBetween(1, 6);
+      random.clear();
+      expect(random.draws.length).toBe(0);
+    });
+  });
+});
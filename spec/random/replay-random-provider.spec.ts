@@ -0,0 +1,21 @@
+import { ReplayRandomProvider } from '../../src/random';
+
+describe('ReplayRandomProvider', () => {
+  describe('numberBetween', () => {
+    it('returns recorded values in order.', function () {
+      const random = new ReplayRandomProvider([{ min: 1, max: 6, value: 4 }, { min: 1, max: 20, value: 17 }]);
+      expect(random.numberBetween(1, 6)).toBe(4);
+      expect(random.numberBetween(1, 20)).toBe(17);
+      expect(random.remaining).toBe(0);
+    });
+    it('throws when more values are requested than were recorded.', function () {
+      const random = new ReplayRandomProvider([{ min: 1, max: 6, value: 4 }]);
+      random.numberBetween(1, 6);
+      expect(() => random.numberBetween(1, 6)).toThrow();
+    });
+    it('throws when the requested range differs from the recording.', function () {
+      const random = new ReplayRandomProvider([{ min: 1, max: 6, value: 4 }]);
+      expect(() => random.numberBetween(1, 8)).toThrow();
+    });
+  });
+});
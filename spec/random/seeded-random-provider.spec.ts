@@ -0,0 +1,69 @@
+import { SeededRandomProvider } from '../../src/random';
+
+describe('SeededRandomProvider', () => {
+  describe('constructor', () => {
+    it('should not throw', function () {
+      expect(() => {
+        const random = new SeededRandomProvider(42);
+      }).not.toThrow();
+    });
+    it('picks a seed when none is given.', function () {
+      const random = new SeededRandomProvider();
+      expect(random.seed).toEqual(jasmine.any(Number));
+    });
+  });
+  describe('next', () => {
+    it('matches the xoshiro128** reference output.', function () {
+      const random = SeededRandomProvider.fromState([1, 2, 3, 4]);
+      expect([random.next(), random.next(), random.next(), random.next()]).toEqual([11520, 0, 5927040, 70819200]);
+    });
+  });
+  describe('numberBetween', () => {
+    it('returns the same sequence for the same seed.', function () {
+      const first = new SeededRandomProvider(1234);
+      const second = new SeededRandomProvider(1234);
+      for (let i = 0; i < 20; i++) {
+        expect(first.numberBetween(1, 20)).toEqual(second.numberBetween(1, 20));
+      }
+    });
+    it('returns numbers within the range.', function () {
+      const random = new SeededRandomProvider(7);
+      const seen: number[] = [];
+      for (let i = 0; i < 200; i++) {
+        const value = random.numberBetween(-1, 1);
+        expect(value).toBeGreaterThanOrEqual(-1);
+        expect(value).toBeLessThanOrEqual(1);
+        if (seen.indexOf(value) === -1) { seen.push(value); }
+      }
+      expect(seen.length).toBe(3);
+    });
+    it('handles ranges wider than 32 bits.', function () {
+      const random = new SeededRandomProvider(7);
+      const value = random.numberBetween(1, 1e12);
+      expect(value).toBeGreaterThanOrEqual(1);
+      expect(value).toBeLessThanOrEqual(1e12);
+      expect(Math.floor(value)).toBe(value);
+    });
+    it('returns the minimum for an empty range (1d0).', function () {
+      const random = new SeededRandomProvider(7);
+      expect(random.numberBetween(1, 0)).toBe(1);
+      expect(random.numberBetween(1, -5)).toBe(1);
+    });
+  });
+  describe('getState', () => {
+    it('can be restored to continue the same sequence.', function () {
+      const random = new SeededRandomProvider(99);
+      random.numberBetween(1, 6);
+      const state = JSON.parse(JSON.stringify(random.getState()));
+      const expected = [random.numberBetween(1, 100), random.numberBetween(1, 100)];
+
+      const restored = SeededRandomProvider.fromState(state);
+      expect([restored.numberBetween(1, 100), restored.numberBetween(1, 100)]).toEqual(expected);
+    });
+    it('throws for an invalid state.', function () {
+      const random = new SeededRandomProvider(99);
+      expect(() => random.setState([0, 0, 0, 0])).toThrow();
+      expect(() => random.setState([1, 2])).toThrow();
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { DiceInterpreter } from '../../src/interpreter';
+import { SeededRandomProvider } from '../../src/random';
+import { DiceSimulator } from '../../src/simulator';
+import { MockListRandomProvider, parse } from '../helpers';
+
+describe('DiceSimulator', () => {
+  describe('simulate', () => {
+    it('builds a histogram of the totals rolled (1d6 + 1).', () => {
+      const simulator = new DiceSimulator(new DiceInterpreter(null, new MockListRandomProvider([1, 3, 3, 6])));
+      const res = simulator.simulate(parse('1d6 + 1'), { trials: 4 });
+      expect(res.errors.length).toBe(0);
+      expect(res.trials).toBe(4);
+      expect(res.histogram).toEqual([[2, 1], [4, 2], [7, 1]]);
+      expect(res.probability(4)).toBe(0.5);
+      expect(res.mean).toBe(4.25);
+      expect(res.min).toBe(2);
+      expect(res.max).toBe(7);
+      expect(res.percentile(50)).toBe(4);
+    });
+    it('does not change the expression it is given (2d6!).', () => {
+      const expression = parse('2d6!');
+      const simulator = new DiceSimulator(new DiceInterpreter(null, new SeededRandomProvider(1)));
+      simulator.simulate(expression, { trials: 10 });
+      expect(expression.getChild(0).getChildCount()).toBe(2);
+      expect(expression.getChild(0).getAttribute('value')).toBeUndefined();
+    });
+    it('estimates the mean with a confidence interval (4d6kh3).', () => {
+      const simulator = new DiceSimulator(new DiceInterpreter(null, new SeededRandomProvider(42)));
+      const res = simulator.simulate(parse('4d6kh3'), { trials: 20000 });
+      expect(res.total.interval[0]).toBeLessThan(12.2446);
+      expect(res.total.interval[1]).toBeGreaterThan(12.2446);
+      expect(res.total.standardError).toBeCloseTo(res.standardDeviation / Math.sqrt(20000), 10);
+    });
+    it('widens the interval for a higher confidence (4d6kh3).', () => {
+      const run = (confidence: number) => new DiceSimulator(new DiceInterpreter(null, new SeededRandomProvider(42)))
+        .simulate(parse('4d6kh3'), { trials: 1000, confidence }).total.interval;
+      const [low95, high95] = run(0.95);
+      const [low99, high99] = run(0.99);
+      expect((high99 - low99) / (high95 - low95)).toBeCloseTo(2.576 / 1.96, 2);
+    });
+    it('reports success and failure rates (8d10>7).', () => {
+      const simulator = new DiceSimulator(new DiceInterpreter(null, new SeededRandomProvider(7)));
+      const res = simulator.simulate(parse('8d10>7'), { trials: 20000 });
+      expect(res.successes.interval[0]).toBeLessThan(2.4);
+      expect(res.successes.interval[1]).toBeGreaterThan(2.4);
+      expect(res.successes.mean + res.failures.mean).toBeCloseTo(8, 10);
+    });
+    it('keeps the errors of the first trial that had any (1d6 + x).', () => {
+      const simulator = new DiceSimulator(new DiceInterpreter(null, new SeededRandomProvider(1)));
+      const res = simulator.simulate(parse('1d6 + x'), { trials: 100 });
+      expect(res.errors.length).toBe(1);
+      expect(res.errors[0].message).toBe('Unknown variable: x.');
+      expect(simulator.simulate(parse('1d6 + x'), { trials: 10, variables: { x: 2 } }).errors.length).toBe(0);
+    });
+  });
+});
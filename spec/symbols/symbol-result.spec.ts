@@ -0,0 +1,21 @@
+import { GenesysSymbolRules, SymbolResult } from '../../src/symbols';
+
+describe('SymbolResult', () => {
+  describe('constructor', () => {
+    it('cancels opposing symbols one for one (3 success, 1 failure, 1 advantage, 2 threat).', () => {
+      const result = new SymbolResult({ success: 3, failure: 1, advantage: 1, threat: 2 }, GenesysSymbolRules);
+      expect(result.net).toEqual({ success: 2, threat: 1 });
+      expect(result.count('success')).toBe(2);
+      expect(result.count('failure')).toBe(0);
+    });
+    it('counts the symbols a triumph implies before cancelling (1 triumph, 1 failure).', () => {
+      const result = new SymbolResult({ triumph: 1, failure: 1 }, GenesysSymbolRules);
+      expect(result.net).toEqual({ triumph: 1 });
+      expect(result.rolled).toEqual({ triumph: 1, failure: 1 });
+    });
+    it('keeps every symbol without rules (1 success, 1 failure).', () => {
+      const result = new SymbolResult({ success: 1, failure: 1 });
+      expect(result.net).toEqual({ success: 1, failure: 1 });
+    });
+  });
+});
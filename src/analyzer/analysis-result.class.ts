@@ -0,0 +1,34 @@
+import { ExpressionNode } from '../ast/index.ts';
+import { ParserError } from '../parser/error-message.class.ts';
+import { AnalyzerError } from './error-message.class.ts';
+import { Distribution } from './distribution.class.ts';
+
+export class AnalysisResult {
+  readonly expression: ExpressionNode;
+  readonly distribution: Distribution;
+  readonly mean: number;
+  readonly variance: number;
+  readonly standardDeviation: number;
+  readonly min: number;
+  readonly max: number;
+  readonly errors: Array<AnalyzerError | ParserError>;
+
+  constructor(expression: ExpressionNode, distribution: Distribution, errors: Array<AnalyzerError | ParserError>) {
+    this.expression = expression;
+    this.distribution = distribution;
+    this.mean = distribution.mean;
+    this.variance = distribution.variance;
+    this.standardDeviation = distribution.standardDeviation;
+    this.min = distribution.min;
+    this.max = distribution.max;
+    this.errors = errors;
+  }
+
+  probability(total: number): number {
+    return this.distribution.probability(total);
+  }
+
+  percentile(percent: number): number {
+    return this.distribution.percentile(percent);
+  }
+}
@@ -0,0 +1,10 @@
+import { CustomDiceList } from '../interpreter/custom-dice-list.interface.ts';
+import { SymbolicDiceList } from '../symbols/index.ts';
+
+export interface AnalyzerOptions {
+  maxExplodeDepth?: number;
+  maxStates?: number;
+  maxMacroDepth?: number;
+  customDice?: CustomDiceList;
+  symbolicDice?: SymbolicDiceList;
+}
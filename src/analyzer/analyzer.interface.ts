@@ -0,0 +1,6 @@
+import * as Ast from '../ast/index.ts';
+import { VariableContext } from '../interpreter/variable-context.interface.ts';
+
+export interface Analyzer<TResult> {
+  analyze(expression: Ast.ExpressionNode, variables?: VariableContext): TResult;
+}
@@ -0,0 +1,1008 @@
+import * as Ast from '../ast/index.ts';
+import { DefaultFunctionRegistry } from '../interpreter/default-function-definitions.ts';
+import { FunctionDefinitionList } from '../interpreter/function-definition-list.class.ts';
+import { FunctionRegistry, RegisteredFunction } from '../interpreter/function-registry.class.ts';
+import { registerMacro } from '../interpreter/macro-definitions.ts';
+import { VariableContext } from '../interpreter/variable-context.interface.ts';
+import { AnalysisResult } from './analysis-result.class.ts';
+import { Analyzer } from './analyzer.interface.ts';
+import { AnalyzerOptions } from './analyzer-options.interface.ts';
+import { Distribution } from './distribution.class.ts';
+import { AnalyzerError } from './error-message.class.ts';
+import { SuccessAnalysisResult } from './success-analysis-result.class.ts';
+import { SuccessCounts } from './success-counts.class.ts';
+
+interface DicePool {
+  count: Distribution;
+  sides?: number | string;
+  raw?: Distribution;
+  die?: Distribution;
+  elements?: Distribution[];
+  exploded: boolean;
+  reduced?: Distribution;
+  contribution?: (value: number) => number;
+  explosion?: Explosion;
+}
+
+type Condition = (value: number) => boolean;
+
+// A die that explodes into dice of its own, kept so that keep and drop can still see each die.
+interface Explosion {
+  die: Distribution;
+  raw: Distribution;
+  condition: Condition;
+  penetrate: boolean;
+}
+
+// The dice that could still be kept or dropped, and the total of the others once they can no longer be dropped.
+interface KeptDice {
+  dice: number[];
+  rest: number;
+  p: number;
+}
+
+const CompareOperators: { [type: string]: (lhs: number, rhs: number) => boolean } = {};
+CompareOperators[Ast.NodeType.Equal] = (l, r) => l === r;
+CompareOperators[Ast.NodeType.Greater] = (l, r) => l > r;
+CompareOperators[Ast.NodeType.GreaterOrEqual] = (l, r) => l >= r;
+CompareOperators[Ast.NodeType.Less] = (l, r) => l < r;
+CompareOperators[Ast.NodeType.LessOrEqual] = (l, r) => l <= r;
+CompareOperators[Ast.NodeType.NotEqual] = (l, r) => l !== r;
+
+const DistributionFunctions: { [name: string]: (value: number) => number } = {
+  floor: Math.floor,
+  ceil: Math.ceil,
+  abs: Math.abs,
+  round: Math.round,
+  sqrt: Math.sqrt,
+  trunc: Math.trunc,
+  sign: Math.sign,
+};
+
+const DefaultMaxMacroDepth = 100;
+
+const PoolNodeTypes = [
+  Ast.NodeType.Dice,
+  Ast.NodeType.Group,
+  Ast.NodeType.Explode,
+  Ast.NodeType.Keep,
+  Ast.NodeType.Drop,
+  Ast.NodeType.Critical,
+  Ast.NodeType.Reroll,
+  Ast.NodeType.Sort,
+  Ast.NodeType.Pool,
+];
+
+export class DiceAnalyzer implements Analyzer<AnalysisResult> {
+  protected options: AnalyzerOptions;
+  protected functions: FunctionRegistry;
+  protected callFunctions: FunctionRegistry;
+  protected variables: VariableContext = {};
+  private bindings = new Map<Ast.ExpressionNode, number>();
+  private macroDepth = 0;
+
+  constructor(options?: AnalyzerOptions, functions?: FunctionDefinitionList | FunctionRegistry) {
+    this.options = options || {};
+    this.functions = functions instanceof FunctionRegistry ? functions : new FunctionRegistry(DefaultFunctionRegistry, functions);
+    this.callFunctions = this.functions;
+  }
+
+  analyze(expression: Ast.ExpressionNode, variables?: VariableContext): AnalysisResult {
+    this.variables = variables || {};
+    this.callFunctions = this.functions;
+    this.macroDepth = 0;
+    this.bindings.clear();
+    const errors: AnalyzerError[] = [];
+    const distribution = this.evaluate(expression, errors);
+    return new AnalysisResult(expression, distribution, errors);
+  }
+
+  analyzeSuccesses(expression: Ast.ExpressionNode, variables?: VariableContext): SuccessAnalysisResult {
+    this.variables = variables || {};
+    this.callFunctions = this.functions;
+    this.macroDepth = 0;
+    this.bindings.clear();
+    const errors: AnalyzerError[] = [];
+    const counts = this.countSuccesses(expression, errors) || SuccessCounts.constant(0, 0);
+    return new SuccessAnalysisResult(expression, counts, errors);
+  }
+
+  evaluate(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    if (!expression) {
+      errors.push(new AnalyzerError('Unexpected null node reference found.', expression));
+      return Distribution.constant(0);
+    }
+    switch (expression.type) {
+      case Ast.NodeType.Number: return Distribution.constant(expression.getAttribute('value'));
+      case Ast.NodeType.DiceSides: return Distribution.constant(expression.getAttribute('value'));
+      case Ast.NodeType.Variable: return this.evaluateVariable(expression, errors);
+      case Ast.NodeType.Let: return this.evaluateLet(expression, errors);
+      case Ast.NodeType.Bands:
+        if (!this.expectChildCount(expression, 1, errors)) { return Distribution.constant(0); }
+        return this.evaluate(expression.getChild(0), errors);
+      case Ast.NodeType.Define: return this.evaluateDefine(expression, errors);
+      case Ast.NodeType.Add: return this.evaluateBinary(expression, (l, r) => l + r, errors);
+      case Ast.NodeType.Subtract: return this.evaluateBinary(expression, (l, r) => l - r, errors);
+      case Ast.NodeType.Multiply: return this.evaluateBinary(expression, (l, r) => l * r, errors);
+      case Ast.NodeType.Divide: return this.evaluateBinary(expression, (l, r) => l / r, errors);
+      case Ast.NodeType.Modulo: return this.evaluateBinary(expression, (l, r) => l % r, errors);
+      case Ast.NodeType.Exponent: return this.evaluateBinary(expression, Math.pow, errors);
+      case Ast.NodeType.Negate: return this.evaluateNegate(expression, errors);
+      case Ast.NodeType.Function: return this.evaluateFunction(expression, errors);
+      case Ast.NodeType.Repeat: return this.evaluateRepeat(expression, errors);
+      case Ast.NodeType.Conditional: return this.evaluateConditional(expression, errors);
+      case Ast.NodeType.And: return this.evaluateLogical(expression, (l, r) => l && r, errors);
+      case Ast.NodeType.Or: return this.evaluateLogical(expression, (l, r) => l || r, errors);
+      case Ast.NodeType.Not:
+        if (!this.expectChildCount(expression, 1, errors)) { return Distribution.constant(0); }
+        return this.evaluateCondition(expression.getChild(0), errors).map(value => 1 - value);
+      case Ast.NodeType.NotEqual:
+        if (!this.expectChildCount(expression, 2, errors)) { return Distribution.constant(0); }
+        return this.evaluateCondition(expression, errors);
+      default:
+        if (this.isPoolNode(expression)) {
+          const pool = this.evaluatePool(expression, errors);
+          return pool ? this.total(pool) : Distribution.constant(0);
+        }
+        errors.push(new AnalyzerError(`Unrecognized node type '${expression.type}'.`, expression));
+        return Distribution.constant(0);
+    }
+  }
+
+  evaluateVariable(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    const name = expression.getAttribute('name');
+    if (!expression.getAttribute('external')) {
+      const binding = this.findBinding(expression, name);
+      if (binding && this.bindings.has(binding)) { return Distribution.constant(this.bindings.get(binding) as number); }
+    }
+    if (Object.prototype.hasOwnProperty.call(this.variables, name)) {
+      return Distribution.constant(this.variables[name]);
+    }
+    errors.push(new AnalyzerError(`Unknown variable: ${name}.`, expression));
+    return Distribution.constant(0);
+  }
+
+  evaluateLet(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    if (!this.expectChildCount(expression, 2, errors)) { return Distribution.constant(0); }
+    // Every reference to the name sees the same roll, so the body is analyzed once per bound value.
+    const parts: Array<[number, Distribution]> = [];
+    this.evaluate(expression.getChild(0), errors).forEach((p, value) => {
+      this.bindings.set(expression, value);
+      parts.push([p, this.evaluate(expression.getChild(1), parts.length ? [] : errors)]);
+    });
+    this.bindings.delete(expression);
+    return Distribution.mixture(parts);
+  }
+
+  evaluateDefine(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    if (expression.getChildCount() < 2) { return Distribution.constant(0); }
+    const functions = this.callFunctions;
+    this.callFunctions = registerMacro(functions.createScope(), expression);
+    const value = this.evaluate(expression.getChild(1), errors);
+    this.callFunctions = functions;
+    return value;
+  }
+
+  // Each argument is rolled once where the macro is called, and bound to its parameter like a let binding.
+  evaluateMacro(define: Ast.ExpressionNode, expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    const maxMacroDepth = this.options.maxMacroDepth || DefaultMaxMacroDepth;
+    if (this.macroDepth >= maxMacroDepth) {
+      errors.push(new AnalyzerError(`Macro calls nested too deeply. Maximum depth allowed: ${maxMacroDepth}.`, expression));
+      return Distribution.constant(0);
+    }
+    const parameters: string[] = define.getAttribute('parameters') || [];
+    const values = parameters.map((name, index) => this.evaluate(expression.getChild(index), errors));
+    // The body is wrapped in let nodes for its variables to find, but evaluated directly, with each binding set here.
+    const body = define.getChild(0).copy();
+    const bindings: Ast.ExpressionNode[] = [];
+    parameters.forEach(name => {
+      const binding = Ast.Factory.create(Ast.NodeType.Let).setAttribute('name', name);
+      binding.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 0));
+      binding.addChild(bindings.length ? bindings[bindings.length - 1] : body);
+      bindings.push(binding);
+    });
+
+    const bind = (index: number, bindErrors: AnalyzerError[]): Distribution => {
+      if (index === bindings.length) { return this.evaluate(body, bindErrors); }
+      const parts: Array<[number, Distribution]> = [];
+      values[index].forEach((p, value) => {
+        this.bindings.set(bindings[index], value);
+        parts.push([p, bind(index + 1, parts.length ? [] : bindErrors)]);
+      });
+      this.bindings.delete(bindings[index]);
+      return Distribution.mixture(parts);
+    };
+    this.macroDepth++;
+    const result = bind(0, errors);
+    this.macroDepth--;
+    return result;
+  }
+
+  evaluateConditional(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    if (!this.expectChildCount(expression, 3, errors)) { return Distribution.constant(0); }
+    const condition = this.evaluateCondition(expression.getChild(0), errors);
+    const parts: Array<[number, Distribution]> = [];
+    condition.forEach((p, value) => parts.push([p, this.evaluate(expression.getChild(value ? 1 : 2), errors)]));
+    return Distribution.mixture(parts);
+  }
+
+  evaluateLogical(expression: Ast.ExpressionNode, fn: (lhs: boolean, rhs: boolean) => boolean, errors: AnalyzerError[]): Distribution {
+    if (!this.expectChildCount(expression, 2, errors)) { return Distribution.constant(0); }
+    return this.evaluateCondition(expression.getChild(0), errors)
+      .combine(this.evaluateCondition(expression.getChild(1), errors), (l, r) => fn(!!l, !!r) ? 1 : 0);
+  }
+
+  evaluateBinary(expression: Ast.ExpressionNode, fn: (lhs: number, rhs: number) => number, errors: AnalyzerError[]): Distribution {
+    if (!this.expectChildCount(expression, 2, errors)) { return Distribution.constant(0); }
+    return this.evaluate(expression.getChild(0), errors).combine(this.evaluate(expression.getChild(1), errors), fn);
+  }
+
+  evaluateNegate(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    if (!this.expectChildCount(expression, 1, errors)) { return Distribution.constant(0); }
+    return this.evaluate(expression.getChild(0), errors).map(value => -value);
+  }
+
+  evaluateFunction(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    const fName = expression.getAttribute('name');
+    const fn = this.callFunctions.get(fName);
+    if (!fn) {
+      errors.push(new AnalyzerError(`Unknown function: ${fName}`, expression));
+      return Distribution.constant(0);
+    }
+    if (!this.checkArity(fn, expression, errors)) { return Distribution.constant(0); }
+    if (fn.macro) { return this.evaluateMacro(fn.macro, expression, errors); }
+    // A function registered in place of a built-in one could do anything, so only the built-in ones are analyzed.
+    if (fn !== DefaultFunctionRegistry.get(fName)) {
+      errors.push(new AnalyzerError(`Custom functions cannot be analyzed: ${fName}.`, expression));
+      return Distribution.constant(0);
+    }
+    if (DistributionFunctions.hasOwnProperty(fName)) {
+      return this.evaluate(expression.getChild(0), errors).map(DistributionFunctions[fName]);
+    }
+    return this.evaluateBuiltIn(fName, expression, errors) || Distribution.constant(0);
+  }
+
+  // Mirrors DefaultFunctionRegistry. An argument that is reported as invalid leaves a total of 0 there, and here.
+  private evaluateBuiltIn(name: string, expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution | null {
+    const arg = (index: number) => this.evaluate(expression.getChild(index), errors);
+    switch (name) {
+      case 'pow': return arg(0).combine(arg(1), Math.pow);
+      case 'log':
+        const logValue = arg(0);
+        if (expression.getChildCount() < 2) { return logValue.map(value => value > 0 ? Math.log(value) : 0); }
+        return logValue.combine(arg(1), (value, base) => value > 0 && base > 0 && base !== 1 ? Math.log(value) / Math.log(base) : 0);
+      case 'clamp':
+        const clampValue = arg(0);
+        const lower = arg(1);
+        const upper = arg(2);
+        return this.expand(lower, min => this.expand(upper,
+          max => clampValue.map(value => min > max ? value : Math.min(Math.max(value, min), max))));
+      case 'min': return this.reduceValues(this.argumentValues(expression, errors), values => this.fold(values, Math.min));
+      case 'max': return this.reduceValues(this.argumentValues(expression, errors), values => this.fold(values, Math.max));
+      case 'sum': return this.reduceValues(this.argumentValues(expression, errors), values => this.fold(values, (l, r) => l + r));
+      case 'avg':
+        return this.reduceValues(this.argumentValues(expression, errors),
+          values => this.fold(values, (l, r) => l + r).map(total => values.length ? total / values.length : 0));
+      case 'count':
+        if (expression.getChildCount() < 2) {
+          return this.reduceValues(this.argumentValues(expression, errors), values => Distribution.constant(values.length));
+        }
+        const counted = this.diceArgument(name, expression, errors);
+        const faces = arg(1);
+        return counted && this.expand(faces, face => this.reduceValues(counted,
+          values => this.fold(values.map(die => die.map(value => value === face ? 1 : 0)), (l, r) => l + r)) || Distribution.constant(0));
+      case 'highest':
+      case 'lowest':
+        const kept = this.diceArgument(name, expression, errors);
+        const keepCounts = expression.getChildCount() > 1 ? arg(1) : Distribution.constant(1);
+        return kept && this.keepValues(expression, kept, keepCounts, name === 'highest', errors);
+      case 'unique':
+        const rolled = this.diceArgument(name, expression, errors);
+        return rolled && this.reduceValues(rolled, values => this.countUnique(expression, values, errors));
+    }
+    errors.push(new AnalyzerError(`Unknown function: ${name}`, expression));
+    return null;
+  }
+
+  // Every value an argument list stands for: each die or group element for dice, otherwise the total.
+  // Each entry is one possible list of values with its probability, as a variable number of dice gives lists of different lengths.
+  private argumentValues(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Array<[number, Distribution[]]> | null {
+    let lists: Array<[number, Distribution[]]> = [[1, []]];
+    for (let x = 0; x < expression.getChildCount(); x++) {
+      const arg = expression.getChild(x);
+      const values = this.isPoolNode(arg) ? this.poolValues(arg, errors) : [[1, [this.evaluate(arg, errors)]] as [number, Distribution[]]];
+      if (!values) { return null; }
+      const combined: Array<[number, Distribution[]]> = [];
+      lists.forEach(([p, list]) => values.forEach(([q, more]) => combined.push([p * q, list.concat(more)])));
+      lists = combined;
+    }
+    return lists;
+  }
+
+  private diceArgument(name: string, expression: Ast.ExpressionNode, errors: AnalyzerError[]): Array<[number, Distribution[]]> | null {
+    const arg = expression.getChild(0);
+    if (!this.isPoolNode(arg)) {
+      errors.push(new AnalyzerError(`Invalid argument for ${name}: expected dice or a group.`, arg));
+      return null;
+    }
+    return this.poolValues(arg, errors);
+  }
+
+  // The dice of a pool, each as its own value. Kept and exploded dice depend on each other, so they are not analyzed.
+  private poolValues(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Array<[number, Distribution[]]> | null {
+    const pool = this.evaluatePool(expression, errors);
+    if (!pool) { return null; }
+    if (pool.reduced || pool.explosion) {
+      errors.push(new AnalyzerError('Cannot analyze the dice of a pool after a keep, drop or explode modifier.', expression));
+      return null;
+    }
+    if (pool.elements) { return [[1, pool.elements]]; }
+    const die = pool.die || Distribution.constant(0);
+    const lists: Array<[number, Distribution[]]> = [];
+    pool.count.forEach((p, n) => lists.push([p, Array.from({ length: n }, () => die)]));
+    return lists;
+  }
+
+  private reduceValues(lists: Array<[number, Distribution[]]> | null,
+    fn: (values: Distribution[]) => Distribution | null): Distribution | null {
+    if (!lists) { return null; }
+    const parts: Array<[number, Distribution]> = [];
+    for (const [p, values] of lists) {
+      const distribution = fn(values);
+      if (!distribution) { return null; }
+      parts.push([p, distribution]);
+    }
+    return Distribution.mixture(parts);
+  }
+
+  private fold(values: Distribution[], fn: (lhs: number, rhs: number) => number): Distribution {
+    return values.length ? values.reduce((result, value) => result.combine(value, fn)) : Distribution.constant(0);
+  }
+
+  private keepValues(expression: Ast.ExpressionNode, lists: Array<[number, Distribution[]]>, counts: Distribution,
+    highest: boolean, errors: AnalyzerError[]): Distribution | null {
+    const parts: Array<[number, Distribution]> = [];
+    let valid = true;
+    counts.forEach((p, count) => {
+      const kept = !valid ? null : Number.isInteger(count) && count >= 0
+        ? this.reduceValues(lists, values => this.keepElements(expression, values, count, highest, errors))
+        : Distribution.constant(0);
+      if (kept) { parts.push([p, kept]); } else { valid = false; }
+    });
+    return valid ? Distribution.mixture(parts) : null;
+  }
+
+  // Follows the set of faces seen so far, one die at a time.
+  private countUnique(expression: Ast.ExpressionNode, values: Distribution[], errors: AnalyzerError[]): Distribution | null {
+    const maxStates = this.options.maxStates || 100000;
+    let states = new Map<string, { faces: number[], p: number }>([['', { faces: [], p: 1 }]]);
+    for (const die of values) {
+      const next = new Map<string, { faces: number[], p: number }>();
+      states.forEach(state => die.forEach((q, value) => {
+        const faces = state.faces.indexOf(value) === -1 ? state.faces.concat(value).sort((a, b) => a - b) : state.faces;
+        const key = faces.join(',');
+        const existing = next.get(key);
+        next.set(key, { faces, p: (existing ? existing.p : 0) + state.p * q });
+      }));
+      if (next.size > maxStates) {
+        errors.push(new AnalyzerError(`Too many outcomes to analyze. Maximum allowed: ${maxStates}.`, expression));
+        return null;
+      }
+      states = next;
+    }
+    const counts = new Map<number, number>();
+    states.forEach(state => counts.set(state.faces.length, (counts.get(state.faces.length) || 0) + state.p));
+    return new Distribution(counts);
+  }
+
+  evaluateRepeat(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    if (!this.expectChildCount(expression, 2, errors)) { return Distribution.constant(0); }
+    const lhs = this.evaluate(expression.getChild(0), errors);
+    const times = this.evaluate(expression.getChild(1), errors);
+    const parts: Array<[number, Distribution]> = [];
+    times.forEach((p, value) => parts.push([p, lhs.repeat(Math.max(0, Math.ceil(value)))]));
+    return Distribution.mixture(parts);
+  }
+
+  // Mirrors DiceInterpreter.countSuccesses: every pool in the expression is counted once, independently of the others.
+  countSuccesses(expression: Ast.ExpressionNode, errors: AnalyzerError[]): SuccessCounts | null {
+    if (this.isPoolNode(expression)) { return this.countPool(expression, errors); }
+    switch (expression.type) {
+      case Ast.NodeType.Repeat:
+        if (!this.expectChildCount(expression, 2, errors)) { return null; }
+        const lhs = this.countSuccesses(expression.getChild(0), errors);
+        return lhs && this.repeatCountsBy(expression, lhs, this.evaluate(expression.getChild(1), errors), errors);
+      // Only the branch taken is rolled, and and/or skip their right-hand side the same way.
+      case Ast.NodeType.Conditional:
+      case Ast.NodeType.And:
+      case Ast.NodeType.Or:
+        errors.push(new AnalyzerError('Success counts cannot be analyzed through a condition.', expression));
+        return null;
+
+      case Ast.NodeType.Define:
+        errors.push(new AnalyzerError('Macros cannot be analyzed.', expression));
+        return null;
+      case Ast.NodeType.Function:
+        const fn = this.callFunctions.get(expression.getAttribute('name'));
+        if (fn && fn.macro) {
+          errors.push(new AnalyzerError('Success counts cannot be analyzed through a macro.', expression));
+          return null;
+        }
+    }
+    let counts: SuccessCounts | null = SuccessCounts.constant(0, 0);
+    expression.forEachChild(child => {
+      const childCounts = counts && this.countSuccesses(child, errors);
+      counts = childCounts ? this.addCounts(expression, counts as SuccessCounts, childCounts, errors) : null;
+    });
+    return counts;
+  }
+
+  private countPool(expression: Ast.ExpressionNode, errors: AnalyzerError[]): SuccessCounts | null {
+    const modifiers: Ast.ExpressionNode[] = [];
+    let node = expression;
+    while (node.type !== Ast.NodeType.Dice && node.type !== Ast.NodeType.Group) {
+      if (!this.expectChildCount(node, 1, errors)) { return null; }
+      modifiers.unshift(node);
+      node = node.getChild(0);
+    }
+    let pool = node.type === Ast.NodeType.Dice ? this.evaluateDice(node, errors) : this.evaluateGroup(node, errors);
+    let explode: Ast.ExpressionNode | undefined;
+    let success: Condition = () => false;
+
+    for (const modifier of modifiers) {
+      if (!pool) { return null; }
+      switch (modifier.type) {
+        case Ast.NodeType.Explode:
+          if (explode) {
+            this.expectUnmodifiedPool(modifier, { ...pool, exploded: true }, errors);
+            return null;
+          }
+          if (modifier.getAttribute('compound')) {
+            pool = this.evaluateExplode(modifier, pool, errors);
+          } else {
+            explode = modifier;
+          }
+          break;
+        case Ast.NodeType.Reroll:
+          pool = this.evaluateReroll(modifier, { ...pool, exploded: pool.exploded || !!explode }, errors);
+          break;
+        case Ast.NodeType.Keep:
+        case Ast.NodeType.Drop:
+          errors.push(new AnalyzerError(`Success counts cannot be analyzed for a ${modifier.type} modifier.`, modifier));
+          return null;
+        case Ast.NodeType.Critical:
+        case Ast.NodeType.Sort:
+        case Ast.NodeType.Pool:
+          break;
+        default:
+          if (!this.expectChildCount(modifier, 2, errors)) { return null; }
+          const rhs = this.evaluate(modifier.getChild(1), errors);
+          if (!rhs.isConstant()) {
+            errors.push(new AnalyzerError('Conditions with a random value cannot be analyzed.', modifier));
+            return null;
+          }
+          success = value => CompareOperators[modifier.type](value, rhs.min);
+      }
+    }
+    if (!pool) { return null; }
+
+    const classify = (value: number) => success(value) ? SuccessCounts.constant(1, 0) : SuccessCounts.constant(0, 1);
+    if (pool.elements) {
+      return pool.elements.reduce((counts, element) => counts.add(this.expandCounts(element, classify)), SuccessCounts.constant(0, 0));
+    }
+
+    let die = this.expandCounts(pool.die || Distribution.constant(0), classify);
+    if (explode) {
+      const chain = this.countExplosions(explode, pool, classify, errors);
+      if (!chain) { return null; }
+      die = chain;
+    }
+    return this.repeatCountsBy(expression, die, pool.count, errors);
+  }
+
+  // Each explosion adds a die of its own, which succeeds or fails on its own face.
+  private countExplosions(expression: Ast.ExpressionNode, pool: DicePool, classify: (value: number) => SuccessCounts,
+    errors: AnalyzerError[]): SuccessCounts | null {
+    if (!pool.raw || !pool.die) { return null; }
+    const condition = this.findCondition(expression, Ast.NodeType.Equal, pool.sides, errors);
+    if (!condition || this.wouldRollAgainForever(expression, pool.raw, condition, errors)) { return null; }
+
+    const penetrate = expression.getAttribute('penetrate');
+    const depth = this.options.maxExplodeDepth !== undefined ? this.options.maxExplodeDepth : 10;
+    const raw = pool.raw;
+    if (depth < 1) { return this.expandCounts(pool.die, classify); }
+
+    let tail = this.expandCounts(raw, classify);
+    for (let x = 1; x < depth; x++) {
+      const next = tail;
+      tail = this.expandCounts(raw, value => condition(penetrate ? value - 1 : value) ? classify(value).add(next) : classify(value));
+    }
+    const explosions = tail;
+    return this.expandCounts(pool.die, value => condition(value) ? classify(value).add(explosions) : classify(value));
+  }
+
+  private expandCounts(distribution: Distribution, fn: (value: number) => SuccessCounts): SuccessCounts {
+    const parts: Array<[number, SuccessCounts]> = [];
+    distribution.forEach((p, value) => parts.push([p, fn(value)]));
+    return SuccessCounts.mixture(parts);
+  }
+
+  private addCounts(expression: Ast.ExpressionNode, lhs: SuccessCounts, rhs: SuccessCounts, errors: AnalyzerError[]): SuccessCounts | null {
+    const maxStates = this.options.maxStates || 100000;
+    // Give up before combining two large tables, as well as when the result is too large.
+    const counts = lhs.size * rhs.size <= maxStates * 100 ? lhs.add(rhs) : null;
+    if (!counts || counts.size > maxStates) {
+      errors.push(new AnalyzerError(`Too many outcomes to analyze. Maximum allowed: ${maxStates}.`, expression));
+      return null;
+    }
+    return counts;
+  }
+
+  private repeatCountsBy(expression: Ast.ExpressionNode, counts: SuccessCounts, times: Distribution,
+    errors: AnalyzerError[]): SuccessCounts | null {
+    const parts: Array<[number, SuccessCounts]> = [];
+    let valid = true;
+    times.forEach((p, value) => {
+      const repeated = valid && this.repeatCounts(expression, counts, Math.max(0, Math.ceil(value)), errors);
+      if (repeated) { parts.push([p, repeated]); } else { valid = false; }
+    });
+    return valid ? SuccessCounts.mixture(parts) : null;
+  }
+
+  private repeatCounts(expression: Ast.ExpressionNode, counts: SuccessCounts, times: number,
+    errors: AnalyzerError[]): SuccessCounts | null {
+    let result: SuccessCounts | null = SuccessCounts.constant(0, 0);
+    let base: SuccessCounts | null = counts;
+    while (times > 0 && result && base) {
+      if (times % 2 === 1) { result = this.addCounts(expression, result, base, errors); }
+      times = Math.floor(times / 2);
+      if (times > 0) { base = this.addCounts(expression, base, base, errors); }
+    }
+    return result && base ? result : null;
+  }
+
+  private evaluatePool(expression: Ast.ExpressionNode, errors: AnalyzerError[]): DicePool | null {
+    switch (expression.type) {
+      case Ast.NodeType.Dice: return this.evaluateDice(expression, errors);
+      case Ast.NodeType.Group: return this.evaluateGroup(expression, errors);
+    }
+
+    if (!this.expectChildCount(expression, 1, errors)) { return null; }
+    const pool = this.findPool(expression.getChild(0), errors);
+    if (!pool) { return null; }
+
+    switch (expression.type) {
+      case Ast.NodeType.Explode: return this.evaluateExplode(expression, pool, errors);
+      case Ast.NodeType.Reroll: return this.evaluateReroll(expression, pool, errors);
+      case Ast.NodeType.Keep: return this.evaluateKeep(expression, pool, errors);
+      case Ast.NodeType.Drop: return this.evaluateDrop(expression, pool, errors);
+      case Ast.NodeType.Critical: return this.evaluateCritical(expression, pool, errors);
+      case Ast.NodeType.Sort: return { ...pool, contribution: undefined };
+      // Success pool modifiers only mark dice for the net successes, which are not analyzed.
+      case Ast.NodeType.Pool: return pool;
+      default: return this.evaluateSuccess(expression, pool, errors);
+    }
+  }
+
+  private evaluateDice(expression: Ast.ExpressionNode, errors: AnalyzerError[]): DicePool | null {
+    if (!this.expectChildCount(expression, 2, errors)) { return null; }
+    const count = this.evaluate(expression.getChild(0), errors).map(value => Math.max(0, Math.round(value)));
+
+    const sidesNode = expression.getChild(1);
+    const faces = this.getCustomFaces(sidesNode, errors);
+    if (faces === null) { return null; }
+    let sides: number | string = sidesNode.getAttribute('value');
+    let raw: Distribution;
+    if (faces) {
+      // Defaults such as exploding on the highest face treat custom dice like a die with that many sides.
+      sides = Math.max(...faces);
+      raw = Distribution.mixture(faces.map(face => [1 / faces.length, Distribution.constant(face)] as [number, Distribution]));
+    } else if (sidesNode.getAttribute('bonus') || sidesNode.getAttribute('penalty')) {
+      raw = this.evaluateTens(sidesNode.getAttribute('bonus') || 0, sidesNode.getAttribute('penalty') || 0);
+    } else if (sides === 'fate') {
+      raw = Distribution.uniform(-1, 1);
+    } else {
+      const sidesValue = this.evaluate(sidesNode, errors);
+      if (!sidesValue.isConstant()) {
+        errors.push(new AnalyzerError('Dice with a variable number of sides cannot be analyzed.', expression));
+        return null;
+      }
+      sides = sidesValue.min;
+      raw = Distribution.uniform(1, Math.round(sides));
+    }
+    return { count, sides, raw, die: raw, exploded: false };
+  }
+
+  // A percentile die with extra tens dice keeps the lowest result for a bonus and the highest for a penalty.
+  // For each units digit the kept result is the least or greatest of several equally likely tens.
+  private evaluateTens(bonus: number, penalty: number): Distribution {
+    const dice = bonus + penalty + 1;
+    const parts: Array<[number, Distribution]> = [];
+    for (let units = 0; units < 10; units++) {
+      const results: number[] = [];
+      for (let tens = 0; tens < 100; tens += 10) { results.push(tens + units || 100); }
+      results.sort((a, b) => a - b);
+      const probabilities = new Map<number, number>();
+      results.forEach((result, index) => {
+        const probability = bonus
+          ? Math.pow((10 - index) / 10, dice) - Math.pow((9 - index) / 10, dice)
+          : Math.pow((index + 1) / 10, dice) - Math.pow(index / 10, dice);
+        probabilities.set(result, probability);
+      });
+      parts.push([1 / 10, new Distribution(probabilities)]);
+    }
+    return Distribution.mixture(parts);
+  }
+
+  // The faces of a die given as a list or registered by name, undefined for numbered dice and null for an unknown name.
+  private getCustomFaces(sides: Ast.ExpressionNode, errors: AnalyzerError[]): number[] | undefined | null {
+    const name: string | undefined = sides.getAttribute('name');
+    if (name === undefined) { return sides.getAttribute('values'); }
+    const customDice = this.options.customDice || {};
+    if ((this.options.symbolicDice || {}).hasOwnProperty(name)) {
+      errors.push(new AnalyzerError('Symbolic dice cannot be analyzed.', sides));
+      return null;
+    }
+    if (!customDice.hasOwnProperty(name)) {
+      errors.push(new AnalyzerError(`Unknown dice: ${name}.`, sides));
+      return null;
+    }
+    return customDice[name];
+  }
+
+  private evaluateGroup(expression: Ast.ExpressionNode, errors: AnalyzerError[]): DicePool | null {
+    const elements: Distribution[] = [];
+    let valid = true;
+    expression.forEachChild(child => {
+      if (child.type !== Ast.NodeType.Repeat) {
+        elements.push(this.evaluate(child, errors));
+      } else if (this.expectChildCount(child, 2, errors)) {
+        const times = this.evaluate(child.getChild(1), errors);
+        if (!times.isConstant()) {
+          errors.push(new AnalyzerError('Group repeats with a variable count cannot be analyzed.', child));
+          valid = false;
+          return;
+        }
+        const lhs = this.evaluate(child.getChild(0), errors);
+        for (let x = 0; x < times.min; x++) { elements.push(lhs); }
+      }
+    });
+    if (!valid) { return null; }
+    return { count: Distribution.constant(elements.length), elements, exploded: false };
+  }
+
+  private evaluateExplode(expression: Ast.ExpressionNode, pool: DicePool, errors: AnalyzerError[]): DicePool | null {
+    if (!pool.raw || !pool.die || !this.expectUnmodifiedPool(expression, pool, errors)) { return null; }
+    const condition = this.findCondition(expression, Ast.NodeType.Equal, pool.sides, errors);
+    if (!condition || this.wouldRollAgainForever(expression, pool.raw, condition, errors)) { return null; }
+
+    const penetrate = expression.getAttribute('penetrate');
+    const depth = this.options.maxExplodeDepth !== undefined ? this.options.maxExplodeDepth : 10;
+    if (depth < 1) { return { ...pool, contribution: undefined }; }
+
+    // Build the distribution of follow-up rolls from the deepest allowed explosion outwards.
+    const adjust = (value: number) => penetrate ? value - 1 : value;
+    let tail = pool.raw.map(adjust);
+    for (let x = 1; x < depth; x++) {
+      const next = tail;
+      tail = this.expand(pool.raw, value => {
+        const adjusted = adjust(value);
+        return condition(adjusted) ? next.map(t => adjusted + t) : Distribution.constant(adjusted);
+      });
+    }
+
+    const die = this.expand(pool.die, value => condition(value) ? tail.map(t => value + t) : Distribution.constant(value));
+    // Compounded explosions stay a single die, so later modifiers can still treat the pool die by die.
+    if (expression.getAttribute('compound')) { return { ...pool, die, contribution: undefined }; }
+    const explosion = { die: pool.die, raw: pool.raw, condition, penetrate };
+    return { ...pool, die, exploded: true, contribution: undefined, explosion };
+  }
+
+  private evaluateReroll(expression: Ast.ExpressionNode, pool: DicePool, errors: AnalyzerError[]): DicePool | null {
+    if (!pool.raw || !pool.die || !this.expectUnmodifiedPool(expression, pool, errors)) { return null; }
+    const condition = this.findCondition(expression, Ast.NodeType.Equal, 1, errors);
+    if (!condition || this.wouldRollAgainForever(expression, pool.raw, condition, errors)) { return null; }
+
+    const reroll = expression.getAttribute('once') ? pool.raw : pool.raw.given(value => !condition(value));
+
+    const die = this.expand(pool.die, value => condition(value) ? reroll : Distribution.constant(value));
+    return { ...pool, die, contribution: undefined };
+  }
+
+  private evaluateKeep(expression: Ast.ExpressionNode, pool: DicePool, errors: AnalyzerError[]): DicePool | null {
+    const counts = expression.getChildCount() > 1 ? this.evaluate(expression.getChild(1), errors) : Distribution.constant(1);
+    const highest = expression.getAttribute('type') !== 'lowest';
+    if (pool.explosion && !pool.reduced) {
+      return this.evaluateKeptExplosions(expression, pool, pool.explosion, counts, highest, false, errors);
+    }
+    if (!this.expectUnmodifiedPool(expression, pool, errors)) { return null; }
+    return this.evaluateKept(expression, pool, counts, (n, k) => k, highest, errors);
+  }
+
+  private evaluateDrop(expression: Ast.ExpressionNode, pool: DicePool, errors: AnalyzerError[]): DicePool | null {
+    const counts = expression.getChildCount() > 1 ? this.evaluate(expression.getChild(1), errors) : Distribution.constant(1);
+    const type = expression.getAttribute('type');
+    if (pool.explosion && !pool.reduced) {
+      return this.evaluateKeptExplosions(expression, pool, pool.explosion, counts, type === 'highest', true, errors);
+    }
+    if (!this.expectUnmodifiedPool(expression, pool, errors)) { return null; }
+    // Dropping the lowest dice is the same as keeping the highest of the remainder, and vice versa.
+    return this.evaluateKept(expression, pool, counts, (n, k) => n - k, type === 'lowest', errors);
+  }
+
+  private evaluateCritical(expression: Ast.ExpressionNode, pool: DicePool, errors: AnalyzerError[]): DicePool | null {
+    if (!this.expectUnmodifiedPool(expression, pool, errors)) { return null; }
+    const critical = expression.getAttribute('type') === 'success' ? pool.sides : 1;
+    const condition = this.findCondition(expression, Ast.NodeType.Equal, critical, errors);
+    if (!condition) { return null; }
+    return { ...pool, contribution: value => condition(value) ? value : 0 };
+  }
+
+  private evaluateSuccess(expression: Ast.ExpressionNode, pool: DicePool, errors: AnalyzerError[]): DicePool | null {
+    if (!this.expectChildCount(expression, 2, errors) || !this.expectUnmodifiedPool(expression, pool, errors)) { return null; }
+    const compare = CompareOperators[expression.type];
+    const rhs = this.evaluate(expression.getChild(1), errors);
+    if (rhs.isConstant()) {
+      const rhv = rhs.min;
+      return { ...pool, contribution: value => compare(value, rhv) ? value : 0 };
+    }
+    const reduced = this.expand(rhs, rhv => this.total({ ...pool, contribution: value => compare(value, rhv) ? value : 0 }));
+    return { ...pool, reduced };
+  }
+
+  private evaluateKept(expression: Ast.ExpressionNode, pool: DicePool, counts: Distribution,
+    keepCount: (n: number, k: number) => number, highest: boolean, errors: AnalyzerError[]): DicePool | null {
+    const parts: Array<[number, Distribution]> = [];
+    let valid = true;
+    pool.count.forEach((np, n) => {
+      counts.forEach((kp, k) => {
+        if (!valid) { return; }
+        const kept = Math.min(n, Math.max(0, keepCount(n, k)));
+        const distribution = pool.elements
+          ? this.keepElements(expression, pool.elements, kept, highest, errors)
+          : this.keepDice(pool.die || Distribution.constant(0), n, kept, highest);
+        if (distribution) {
+          parts.push([np * kp, distribution]);
+        } else {
+          valid = false;
+        }
+      });
+    });
+    if (!valid) { return null; }
+    return { ...pool, reduced: Distribution.mixture(parts) };
+  }
+
+  // The number of dice is only known once every explosion has been rolled, so the dice are rolled one chain at a time,
+  // remembering just the highest (or lowest) dice seen so far. Exact up to the explosion depth, like the total itself.
+  private evaluateKeptExplosions(expression: Ast.ExpressionNode, pool: DicePool, explosion: Explosion, counts: Distribution,
+    highest: boolean, drop: boolean, errors: AnalyzerError[]): DicePool | null {
+    const parts: Array<[number, Distribution]> = [];
+    let valid = true;
+    counts.forEach((kp, k) => {
+      const limit = Math.max(0, Math.ceil(k));
+      let states: Map<string, KeptDice> | null = new Map([['', { dice: [], rest: 0, p: 1 }]]);
+      for (let n = 0; valid && states && n <= pool.count.max; n++) {
+        if (n > 0) { states = this.rollExplosion(expression, states, explosion, limit, highest, drop, errors); }
+        if (!states) {
+          valid = false;
+        } else if (pool.count.probability(n) > 0) {
+          const totals = new Map<number, number>();
+          states.forEach(state => {
+            const total = drop ? state.rest : state.dice.reduce((sum, value) => sum + value, 0);
+            totals.set(total, (totals.get(total) || 0) + state.p);
+          });
+          parts.push([pool.count.probability(n) * kp, new Distribution(totals)]);
+        }
+      }
+    });
+    if (!valid) { return null; }
+    return { ...pool, reduced: Distribution.mixture(parts) };
+  }
+
+  private rollExplosion(expression: Ast.ExpressionNode, states: Map<string, KeptDice>, explosion: Explosion, limit: number,
+    highest: boolean, drop: boolean, errors: AnalyzerError[]): Map<string, KeptDice> | null {
+    const maxStates = this.options.maxStates || 100000;
+    const depth = this.options.maxExplodeDepth !== undefined ? this.options.maxExplodeDepth : 10;
+    const order = highest ? (a: number, b: number) => b - a : (a: number, b: number) => a - b;
+    const add = (target: Map<string, KeptDice>, state: KeptDice, value: number, p: number) => {
+      const dice = state.dice.concat(value).sort(order);
+      // A die pushed out of the dice that could be kept is discarded, and one that can no longer be dropped is counted.
+      const pushed = dice.length > limit ? dice.pop() as number : 0;
+      const rest = drop ? state.rest + pushed : state.rest;
+      const key = `${dice.join(',')}|${rest}`;
+      const existing = target.get(key);
+      target.set(key, { dice, rest, p: (existing ? existing.p : 0) + p });
+    };
+
+    const result = new Map<string, KeptDice>();
+    let rolling = states;
+    let die = explosion.die;
+    for (let x = 0; rolling.size > 0; x++) {
+      const exploding = new Map<string, KeptDice>();
+      rolling.forEach(state => die.forEach((q, value) => {
+        // The die keeps its face, but a penetrating explosion is one lower when deciding whether to explode again.
+        const explodes = x < depth && explosion.condition(x && explosion.penetrate ? value - 1 : value);
+        add(explodes ? exploding : result, state, value, state.p * q);
+      }));
+      if (result.size + exploding.size > maxStates) {
+        errors.push(new AnalyzerError(`Too many outcomes to analyze. Maximum allowed: ${maxStates}.`, expression));
+        return null;
+      }
+      rolling = exploding;
+      die = explosion.raw;
+    }
+    return result;
+  }
+
+  private keepDice(die: Distribution, n: number, k: number, highest: boolean): Distribution {
+    // states[m] maps the total of the kept dice to its probability once m dice have been assigned a face.
+    let states: Array<Map<number, number>> = [new Map([[0, 1]])];
+    const faces = die.values();
+    if (highest) { faces.reverse(); }
+
+    faces.forEach(face => {
+      const p = die.probability(face);
+      const next: Array<Map<number, number>> = [];
+      states.forEach((totals, m) => {
+        let weight = 1;
+        for (let j = 0; m + j <= n; j++) {
+          const kept = Math.max(0, Math.min(j, k - m));
+          const target = next[m + j] || (next[m + j] = new Map<number, number>());
+          totals.forEach((q, total) => {
+            const value = total + kept * face;
+            target.set(value, (target.get(value) || 0) + q * weight);
+          });
+          weight *= p * (n - m - j) / (j + 1);
+        }
+      });
+      states = next;
+    });
+
+    return new Distribution(states[n] || new Map([[0, 1]]));
+  }
+
+  private keepElements(expression: Ast.ExpressionNode, elements: Distribution[], k: number,
+    highest: boolean, errors: AnalyzerError[]): Distribution | null {
+    const maxStates = this.options.maxStates || 100000;
+    const order = highest ? (a: number, b: number) => b - a : (a: number, b: number) => a - b;
+    let states = new Map<string, { kept: number[], p: number }>([['', { kept: [], p: 1 }]]);
+
+    for (const element of elements) {
+      const next = new Map<string, { kept: number[], p: number }>();
+      states.forEach(state => {
+        element.forEach((q, value) => {
+          const kept = state.kept.concat(value).sort(order).slice(0, k);
+          const key = kept.join(',');
+          const existing = next.get(key);
+          next.set(key, { kept, p: (existing ? existing.p : 0) + state.p * q });
+        });
+      });
+      if (next.size > maxStates) {
+        errors.push(new AnalyzerError(`Too many outcomes to analyze. Maximum allowed: ${maxStates}.`, expression));
+        return null;
+      }
+      states = next;
+    }
+
+    const totals = new Map<number, number>();
+    states.forEach(state => {
+      const total = state.kept.reduce((sum, value) => sum + value, 0);
+      totals.set(total, (totals.get(total) || 0) + state.p);
+    });
+    return new Distribution(totals);
+  }
+
+  private total(pool: DicePool): Distribution {
+    if (pool.reduced) { return pool.reduced; }
+    const contribution = pool.contribution || ((value: number) => value);
+    if (pool.elements) {
+      return pool.elements.reduce((total, element) => total.add(element.map(contribution)), Distribution.constant(0));
+    }
+    const die = (pool.die || Distribution.constant(0)).map(contribution);
+    return this.expand(pool.count, n => die.repeat(n));
+  }
+
+  private expand(distribution: Distribution, fn: (value: number) => Distribution): Distribution {
+    const parts: Array<[number, Distribution]> = [];
+    distribution.forEach((p, value) => parts.push([p, fn(value)]));
+    return Distribution.mixture(parts);
+  }
+
+  private evaluateCondition(expression: Ast.ExpressionNode, errors: AnalyzerError[]): Distribution {
+    const compare = CompareOperators[expression.type];
+    if (compare && expression.getChildCount() > 1) {
+      return this.evaluate(expression.getChild(0), errors)
+        .combine(this.evaluate(expression.getChild(1), errors), (l, r) => compare(l, r) ? 1 : 0);
+    }
+    return this.evaluate(expression, errors).map(value => value !== 0 ? 1 : 0);
+  }
+
+  private findBinding(expression: Ast.ExpressionNode, name: string): Ast.ExpressionNode | null {
+    let child = expression;
+    let node = expression.getParent();
+    while (node) {
+      if (node.type === Ast.NodeType.Let && node.getAttribute('name') === name && node.getChild(1) === child) {
+        return node;
+      }
+      child = node;
+      node = node.getParent();
+    }
+    return null;
+  }
+
+  private findPool(expression: Ast.ExpressionNode, errors: AnalyzerError[]): DicePool | null {
+    if (this.isPoolNode(expression)) {
+      return this.evaluatePool(expression, errors);
+    }
+    if (expression.getChildCount() < 1) {
+      errors.push(new AnalyzerError('Missing dice/group node.', expression));
+      return null;
+    }
+    return this.findPool(expression.getChild(0), errors);
+  }
+
+  private isPoolNode(expression: Ast.ExpressionNode): boolean {
+    if (expression.type === Ast.NodeType.NotEqual) { return false; }
+    if (CompareOperators[expression.type]) { return expression.getChildCount() > 1; }
+    return PoolNodeTypes.indexOf(expression.type) > -1;
+  }
+
+  private findCondition(expression: Ast.ExpressionNode, defaultType: Ast.NodeType,
+    defaultValue: any, errors: AnalyzerError[]): Condition | null {
+    if (expression.getChildCount() < 2) {
+      const compareDefault = CompareOperators[defaultType];
+      return value => compareDefault(value, defaultValue);
+    }
+    const condition = expression.getChild(1);
+    const compare = CompareOperators[condition.type];
+    if (!compare) {
+      errors.push(new AnalyzerError(`Unrecognized comparison operator '${condition.type}'.`, condition));
+      return null;
+    }
+    if (!this.expectChildCount(condition, 1, errors)) { return null; }
+    const rhs = this.evaluate(condition.getChild(0), errors);
+    if (!rhs.isConstant()) {
+      errors.push(new AnalyzerError('Conditions with a random value cannot be analyzed.', condition));
+      return null;
+    }
+    const rhv = rhs.min;
+    return value => compare(value, rhv);
+  }
+
+  private expectUnmodifiedPool(expression: Ast.ExpressionNode, pool: DicePool, errors: AnalyzerError[]): boolean {
+    if (pool.reduced || pool.exploded) {
+      errors.push(new AnalyzerError(`Cannot analyze a ${expression.type} modifier applied after a keep, drop or explode modifier.`,
+        expression));
+      return false;
+    }
+    return true;
+  }
+
+  private wouldRollAgainForever(expression: Ast.ExpressionNode, raw: Distribution, condition: Condition,
+    errors: AnalyzerError[]): boolean {
+    const wouldRunForever = raw.values().every(condition);
+    if (wouldRunForever) {
+      errors.push(new AnalyzerError('Condition to roll again includes all dice faces and would run forever.', expression));
+    }
+    return wouldRunForever;
+  }
+
+  private checkArity(fn: RegisteredFunction, expression: Ast.ExpressionNode, errors: AnalyzerError[]): boolean {
+    if (fn.arity === undefined) { return true; }
+    const { min, max } = typeof fn.arity === 'number' ? { min: fn.arity, max: fn.arity } : fn.arity;
+    const count = expression.getChildCount();
+    if (count >= min && (max === undefined || count <= max)) { return true; }
+    const expected = max === undefined ? `at least ${min}` : min === max ? `${min}` : `${min} to ${max}`;
+    errors.push(new AnalyzerError(`Invalid number of arguments for ${fn.name}: ${count}. Expected: ${expected}.`, expression));
+    return false;
+  }
+
+  private expectChildCount(expression: Ast.ExpressionNode, count: number, errors: AnalyzerError[]): boolean {
+    const findCount = expression.getChildCount();
+    if (findCount < count) {
+      errors.push(new AnalyzerError(`Expected ${expression.type} node to have ${count} children, but found ${findCount}.`, expression));
+      return false;
+    }
+    return true;
+  }
+}
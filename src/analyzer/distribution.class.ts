@@ -0,0 +1,148 @@
+export class Distribution {
+  private readonly probabilities: Map<number, number>;
+
+  constructor(probabilities?: Map<number, number>) {
+    this.probabilities = probabilities || new Map<number, number>();
+  }
+
+  static constant(value: number): Distribution {
+    return new Distribution(new Map([[value, 1]]));
+  }
+
+  static uniform(min: number, max: number): Distribution {
+    const probabilities = new Map<number, number>();
+    const count = max - min + 1;
+    for (let x = min; x <= max; x++) {
+      probabilities.set(x, 1 / count);
+    }
+    return new Distribution(probabilities);
+  }
+
+  static mixture(parts: Array<[number, Distribution]>): Distribution {
+    const probabilities = new Map<number, number>();
+    parts.forEach(([weight, distribution]) => {
+      if (weight === 0) { return; }
+      distribution.probabilities.forEach((p, value) => {
+        probabilities.set(value, (probabilities.get(value) || 0) + weight * p);
+      });
+    });
+    return new Distribution(probabilities);
+  }
+
+  get size(): number {
+    return this.probabilities.size;
+  }
+
+  get min(): number {
+    return this.values()[0];
+  }
+
+  get max(): number {
+    const values = this.values();
+    return values[values.length - 1];
+  }
+
+  get mean(): number {
+    let mean = 0;
+    this.probabilities.forEach((p, value) => mean += value * p);
+    return mean;
+  }
+
+  get variance(): number {
+    const mean = this.mean;
+    let variance = 0;
+    this.probabilities.forEach((p, value) => variance += (value - mean) * (value - mean) * p);
+    return variance;
+  }
+
+  get standardDeviation(): number {
+    return Math.sqrt(this.variance);
+  }
+
+  isConstant(): boolean {
+    return this.probabilities.size === 1;
+  }
+
+  values(): number[] {
+    return Array.from(this.probabilities.keys()).sort((a, b) => a - b);
+  }
+
+  probability(value: number): number {
+    return this.probabilities.get(value) || 0;
+  }
+
+  cumulative(value: number): number {
+    let total = 0;
+    this.probabilities.forEach((p, v) => { if (v <= value) { total += p; } });
+    return total;
+  }
+
+  atLeast(value: number): number {
+    let total = 0;
+    this.probabilities.forEach((p, v) => { if (v >= value) { total += p; } });
+    return total;
+  }
+
+  percentile(percent: number): number {
+    const values = this.values();
+    const target = percent / 100;
+    let total = 0;
+    for (const value of values) {
+      total += this.probabilities.get(value) || 0;
+      // Allow for floating point drift when the target sits exactly on a boundary.
+      if (total >= target - 1e-12) { return value; }
+    }
+    return values[values.length - 1];
+  }
+
+  forEach(fn: (probability: number, value: number) => void) {
+    this.probabilities.forEach(fn);
+  }
+
+  map(fn: (value: number) => number): Distribution {
+    const probabilities = new Map<number, number>();
+    this.probabilities.forEach((p, value) => {
+      const mapped = fn(value);
+      probabilities.set(mapped, (probabilities.get(mapped) || 0) + p);
+    });
+    return new Distribution(probabilities);
+  }
+
+  given(predicate: (value: number) => boolean): Distribution {
+    let total = 0;
+    this.probabilities.forEach((p, value) => { if (predicate(value)) { total += p; } });
+    const probabilities = new Map<number, number>();
+    this.probabilities.forEach((p, value) => { if (predicate(value)) { probabilities.set(value, p / total); } });
+    return new Distribution(probabilities);
+  }
+
+  combine(other: Distribution, fn: (lhs: number, rhs: number) => number): Distribution {
+    const probabilities = new Map<number, number>();
+    this.probabilities.forEach((lp, lhs) => {
+      other.probabilities.forEach((rp, rhs) => {
+        const value = fn(lhs, rhs);
+        probabilities.set(value, (probabilities.get(value) || 0) + lp * rp);
+      });
+    });
+    return new Distribution(probabilities);
+  }
+
+  add(other: Distribution): Distribution {
+    return this.combine(other, (l, r) => l + r);
+  }
+
+  repeat(times: number): Distribution {
+    let result = Distribution.constant(0);
+    let base: Distribution = this;
+    while (times > 0) {
+      if (times % 2 === 1) { result = result.add(base); }
+      times = Math.floor(times / 2);
+      if (times > 0) { base = base.add(base); }
+    }
+    return result;
+  }
+
+  toJSON(): Array<[number, number]> {
+    return this.values().map(value => <[number, number]>[value, this.probability(value)]);
+  }
+}
@@ -0,0 +1,9 @@
+import { ExpressionNode, SourceSpan } from '../ast/index.ts';
+
+export class AnalyzerError {
+  readonly span?: SourceSpan;
+
+  constructor(public message: string, public expression: ExpressionNode, public stack: string = (new Error().stack ?? '')) {
+    this.span = expression ? expression.getSpan() : undefined;
+  }
+}
@@ -0,0 +1,8 @@
+export * from './analysis-result.class.ts';
+export * from './analyzer.interface.ts';
+export * from './analyzer-options.interface.ts';
+export * from './dice-analyzer.class.ts';
+export * from './distribution.class.ts';
+export * from './error-message.class.ts';
+export * from './success-analysis-result.class.ts';
+export * from './success-counts.class.ts';
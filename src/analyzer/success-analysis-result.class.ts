@@ -0,0 +1,29 @@
+import { ExpressionNode } from '../ast/index.ts';
+import { ParserError } from '../parser/error-message.class.ts';
+import { AnalyzerError } from './error-message.class.ts';
+import { Distribution } from './distribution.class.ts';
+import { SuccessCounts } from './success-counts.class.ts';
+
+export class SuccessAnalysisResult {
+  readonly expression: ExpressionNode;
+  readonly counts: SuccessCounts;
+  readonly successes: Distribution;
+  readonly failures: Distribution;
+  readonly errors: Array<AnalyzerError | ParserError>;
+
+  constructor(expression: ExpressionNode, counts: SuccessCounts, errors: Array<AnalyzerError | ParserError>) {
+    this.expression = expression;
+    this.counts = counts;
+    this.successes = counts.successes;
+    this.failures = counts.failures;
+    this.errors = errors;
+  }
+
+  atLeast(successes: number): number {
+    return this.successes.atLeast(successes);
+  }
+
+  probability(successes: number, failures: number): number {
+    return this.counts.probability(successes, failures);
+  }
+}
@@ -0,0 +1,77 @@
+import { Distribution } from './distribution.class.ts';
+
+interface SuccessOutcome {
+  successes: number;
+  failures: number;
+  p: number;
+}
+
+/**
+ * The joint distribution of the number of successful and failed dice in a roll.
+ */
+export class SuccessCounts {
+  private readonly outcomes: Map<string, SuccessOutcome>;
+
+  constructor(outcomes?: Map<string, SuccessOutcome>) {
+    this.outcomes = outcomes || new Map<string, SuccessOutcome>();
+  }
+
+  static constant(successes: number, failures: number): SuccessCounts {
+    return new SuccessCounts(new Map([[`${successes},${failures}`, { successes, failures, p: 1 }]]));
+  }
+
+  static mixture(parts: Array<[number, SuccessCounts]>): SuccessCounts {
+    const outcomes = new Map<string, SuccessOutcome>();
+    parts.forEach(([weight, counts]) => {
+      if (weight === 0) { return; }
+      counts.outcomes.forEach(outcome => SuccessCounts.accumulate(outcomes, outcome.successes, outcome.failures, weight * outcome.p));
+    });
+    return new SuccessCounts(outcomes);
+  }
+
+  private static accumulate(outcomes: Map<string, SuccessOutcome>, successes: number, failures: number, p: number) {
+    const key = `${successes},${failures}`;
+    const existing = outcomes.get(key);
+    if (existing) {
+      existing.p += p;
+    } else {
+      outcomes.set(key, { successes, failures, p });
+    }
+  }
+
+  get size(): number {
+    return this.outcomes.size;
+  }
+
+  get successes(): Distribution {
+    return this.marginal(outcome => outcome.successes);
+  }
+
+  get failures(): Distribution {
+    return this.marginal(outcome => outcome.failures);
+  }
+
+  probability(successes: number, failures: number): number {
+    const outcome = this.outcomes.get(`${successes},${failures}`);
+    return outcome ? outcome.p : 0;
+  }
+
+  add(other: SuccessCounts): SuccessCounts {
+    const outcomes = new Map<string, SuccessOutcome>();
+    this.outcomes.forEach(lhs => {
+      other.outcomes.forEach(rhs => {
+        SuccessCounts.accumulate(outcomes, lhs.successes + rhs.successes, lhs.failures + rhs.failures, lhs.p * rhs.p);
+      });
+    });
+    return new SuccessCounts(outcomes);
+  }
+
+  private marginal(fn: (outcome: SuccessOutcome) => number): Distribution {
+    const probabilities = new Map<number, number>();
+    this.outcomes.forEach(outcome => {
+      const value = fn(outcome);
+      probabilities.set(value, (probabilities.get(value) || 0) + outcome.p);
+    });
+    return new Distribution(probabilities);
+  }
+}
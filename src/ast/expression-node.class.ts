@@ -1,12 +1,14 @@
 import { Factory } from './factory.class.ts';
 import { NodeAttributes } from './node-attributes.class.ts';
 import { NodeType } from './node-type.enum.ts';
+import { SourceSpan } from './source-span.class.ts';
 
 export class ExpressionNode {
   readonly type: NodeType;
   private attributes!: NodeAttributes;
   private parent: ExpressionNode | null;
   private children?: ExpressionNode[];
+  span?: SourceSpan;
 
   [key: string]: any;
 
@@ -17,6 +19,7 @@ export class ExpressionNode {
 
   copy(): ExpressionNode {
     const copy = Factory.create(this.type);
+    if (this.span) { copy.span = new SourceSpan(this.span.start, this.span.end); }
     if (this.attributes) {
       Object.keys(this.attributes).forEach(attr => {
         copy.setAttribute(attr, this.attributes[attr]);
@@ -58,6 +61,12 @@ export class ExpressionNode {
     return this.parent;
   }
 
+  getSpan(): SourceSpan | undefined {
+    let node: ExpressionNode | null = this;
+    while (node && !node.span) { node = node.parent; }
+    return node ? node.span : undefined;
+  }
+
   getChild(index: number): ExpressionNode {
     if (!this.children || this.children.length <= index) {
       throw new Error(`Child node at index ${index} does not exist.`);
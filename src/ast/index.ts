@@ -2,3 +2,4 @@ export * from "./expression-node.class.ts";
 export * from "./factory.class.ts";
 export * from "./node-attributes.class.ts";
 export * from "./node-type.enum.ts";
+export * from "./source-span.class.ts";
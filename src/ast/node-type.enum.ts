@@ -18,6 +18,12 @@ export enum NodeType {
   GreaterOrEqual = <any> "GreaterOrEqual",
   Less = <any> "Less",
   LessOrEqual = <any> "LessOrEqual",
+  NotEqual = <any> "NotEqual",
+
+  Conditional = <any> "Conditional",
+  And = <any> "And",
+  Or = <any> "Or",
+  Not = <any> "Not",
 
   Explode = <any> "Explode",
   Keep = <any> "Keep",
@@ -25,9 +31,15 @@ export enum NodeType {
   Critical = <any> "Critical",
   Reroll = <any> "Reroll",
   Sort = <any> "Sort",
+  Pool = <any> "Pool",
 
   Dice = <any> "Dice",
   DiceSides = <any> "DiceSides",
   DiceRoll = <any> "DiceRoll",
   Number = <any> "Number",
+
+  Variable = <any> "Variable",
+  Let = <any> "Let",
+  Define = <any> "Define",
+  Bands = <any> "Bands",
 }
@@ -0,0 +1,3 @@
+export class SourceSpan {
+  constructor(public start: number, public end: number) { }
+}
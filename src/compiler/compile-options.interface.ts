@@ -0,0 +1,4 @@
+export interface CompileOptions {
+  render?: boolean;
+  breakdown?: boolean;
+}
@@ -0,0 +1,5 @@
+import { DiceResult } from '../interpreter/dice-result.class.ts';
+import { FunctionDefinitionList } from '../interpreter/function-definition-list.class.ts';
+import { VariableContext } from '../interpreter/variable-context.interface.ts';
+
+export type CompiledExpression = (variables?: VariableContext, functions?: FunctionDefinitionList) => DiceResult;
@@ -0,0 +1,314 @@
+import * as Ast from '../ast/index.ts';
+import { DiceGenerator } from '../generator/index.ts';
+import { DiceDraw } from '../interpreter/dice-draw.interface.ts';
+import { DiceInterpreter } from '../interpreter/dice-interpreter.class.ts';
+import { DiceResult } from '../interpreter/dice-result.class.ts';
+import { InterpreterError } from '../interpreter/error-message.class.ts';
+import { FunctionDefinitionList } from '../interpreter/function-definition-list.class.ts';
+import { InterpreterOptions } from '../interpreter/interpreter-options.interface.ts';
+import { VariableContext } from '../interpreter/variable-context.interface.ts';
+import { RandomProvider } from '../random/index.ts';
+import { CompileOptions } from './compile-options.interface.ts';
+import { CompiledExpression } from './compiled-expression.type.ts';
+
+const ArithmeticOperators: { [type: string]: (lhs: number, rhs: number) => number } = {
+  [Ast.NodeType.Add]: (l, r) => l + r,
+  [Ast.NodeType.Subtract]: (l, r) => l - r,
+  [Ast.NodeType.Multiply]: (l, r) => l * r,
+  [Ast.NodeType.Divide]: (l, r) => l / r,
+  [Ast.NodeType.Modulo]: (l, r) => l % r,
+  [Ast.NodeType.Exponent]: (l, r) => Math.pow(l, r),
+};
+
+const ComparisonOperators: { [type: string]: (lhs: number, rhs: number) => boolean } = {
+  [Ast.NodeType.Equal]: (l, r) => l === r,
+  [Ast.NodeType.Greater]: (l, r) => l > r,
+  [Ast.NodeType.GreaterOrEqual]: (l, r) => l >= r,
+  [Ast.NodeType.Less]: (l, r) => l < r,
+  [Ast.NodeType.LessOrEqual]: (l, r) => l <= r,
+  [Ast.NodeType.NotEqual]: (l, r) => l !== r,
+};
+
+interface CompiledState {
+  variables: VariableContext;
+  locals: number[];
+  errors: InterpreterError[];
+  draws: DiceDraw[];
+  successes: number;
+  failures: number;
+  dice: number;
+  started: number;
+  exceeded: boolean;
+}
+
+type CompiledNode = (state: CompiledState) => number;
+
+type CompiledPool = (state: CompiledState) => number[];
+
+interface CompileScope {
+  [name: string]: number;
+}
+
+export class DiceCompiler {
+  protected interpreter: DiceInterpreter;
+  protected generator: DiceGenerator;
+  protected random: RandomProvider;
+  protected options: InterpreterOptions;
+  private localCount = 0;
+
+  constructor(interpreter: DiceInterpreter, generator: DiceGenerator, random: RandomProvider, options?: InterpreterOptions) {
+    this.interpreter = interpreter;
+    this.generator = generator;
+    this.random = random;
+    this.options = options || {};
+  }
+
+  compile(expression: Ast.ExpressionNode, options?: CompileOptions): CompiledExpression {
+    const { render = true, breakdown = true } = options || {};
+    if (!render && !breakdown) {
+      const compiled = this.compileRoot(expression);
+      if (compiled) { return compiled; }
+    }
+    return (variables?: VariableContext, functions?: FunctionDefinitionList) => {
+      const exp = expression.copy();
+      const errors: InterpreterError[] = [];
+      const total = this.interpreter.evaluateRoot(exp, errors, variables, functions);
+      const successes = this.interpreter.countSuccesses(exp, errors);
+      const failures = this.interpreter.countFailures(exp, errors);
+      const renderedExpression = render ? this.generator.generate(exp) : '';
+      const draws = this.interpreter.getDraws();
+      return new DiceResult(exp, renderedExpression, total, successes, failures, errors, draws,
+        breakdown ? this.interpreter.createBreakdown(exp) : [], this.interpreter.countSymbols(exp),
+        this.interpreter.findOutcome(exp, total), this.interpreter.countPool(exp));
+    };
+  }
+
+  // Plain dice, arithmetic, variables and conditions run as closures without touching the tree.
+  // Anything else returns null and is left to the interpreter.
+  private compileRoot(expression: Ast.ExpressionNode): CompiledExpression | null {
+    const { maxNodes } = this.options;
+    if (maxNodes && this.countNodes(expression) > maxNodes) { return null; }
+    this.localCount = 0;
+    const node = this.compileNode(expression, {});
+    if (!node) { return null; }
+    const localCount = this.localCount;
+    return (variables?: VariableContext) => {
+      const state: CompiledState = {
+        variables: variables || {},
+        locals: new Array(localCount),
+        errors: [],
+        draws: [],
+        successes: 0,
+        failures: 0,
+        dice: 0,
+        started: Date.now(),
+        exceeded: false,
+      };
+      const total = node(state);
+      return new DiceResult(expression, '', total, state.successes, state.failures, state.errors, state.draws, [], undefined,
+        this.interpreter.findOutcome(expression, total));
+    };
+  }
+
+  private compileNode(expression: Ast.ExpressionNode, scope: CompileScope): CompiledNode | null {
+    const type = expression.type;
+    const count = expression.getChildCount();
+    if (type === Ast.NodeType.Number) {
+      const value = expression.getAttribute('value');
+      return () => value;
+    } else if (type === Ast.NodeType.Variable) {
+      return this.compileVariable(expression, scope);
+    } else if (type === Ast.NodeType.Let) {
+      return count === 2 ? this.compileLet(expression, scope) : null;
+    } else if (type === Ast.NodeType.Bands) {
+      return count === 1 ? this.compileNode(expression.getChild(0), scope) : null;
+    } else if (ArithmeticOperators.hasOwnProperty(type)) {
+      if (count !== 2) { return null; }
+      const operator = ArithmeticOperators[type];
+      const lhs = this.compileNode(expression.getChild(0), scope);
+      const rhs = this.compileNode(expression.getChild(1), scope);
+      return lhs && rhs ? state => operator(lhs(state), rhs(state)) : null;
+    } else if (type === Ast.NodeType.Negate) {
+      const operand = count === 1 ? this.compileNode(expression.getChild(0), scope) : null;
+      return operand ? state => -operand(state) : null;
+    } else if (type === Ast.NodeType.Dice) {
+      const pool = this.compilePool(expression, scope);
+      return pool ? state => this.countPool(state, pool(state)) : null;
+    } else if (type === Ast.NodeType.Keep || type === Ast.NodeType.Drop) {
+      return this.compileKeepOrDrop(expression, scope);
+    } else if (ComparisonOperators.hasOwnProperty(type) && type !== Ast.NodeType.NotEqual) {
+      return this.compileSuccess(expression, scope);
+    } else if (type === Ast.NodeType.Conditional) {
+      return count === 3 ? this.compileConditional(expression, scope) : null;
+    } else if (type === Ast.NodeType.And || type === Ast.NodeType.Or || type === Ast.NodeType.Not
+      || (type === Ast.NodeType.NotEqual && count === 2)) {
+      const condition = this.compileCondition(expression, scope);
+      return condition ? state => condition(state) ? 1 : 0 : null;
+    }
+    return null;
+  }
+
+  private compileVariable(expression: Ast.ExpressionNode, scope: CompileScope): CompiledNode {
+    const name = expression.getAttribute('name');
+    if (!expression.getAttribute('external') && scope.hasOwnProperty(name)) {
+      const local = scope[name];
+      return state => state.locals[local];
+    }
+    return state => {
+      if (Object.prototype.hasOwnProperty.call(state.variables, name)) { return state.variables[name]; }
+      state.errors.push(new InterpreterError(`Unknown variable: ${name}.`, expression));
+      return 0;
+    };
+  }
+
+  private compileLet(expression: Ast.ExpressionNode, scope: CompileScope): CompiledNode | null {
+    const local = this.localCount++;
+    const value = this.compileNode(expression.getChild(0), scope);
+    const body = this.compileNode(expression.getChild(1), { ...scope, [expression.getAttribute('name')]: local });
+    if (!value || !body) { return null; }
+    return state => {
+      state.locals[local] = value(state);
+      return body(state);
+    };
+  }
+
+  // Rolls a plain dice node and returns its values in the order they were rolled.
+  private compilePool(expression: Ast.ExpressionNode, scope: CompileScope): CompiledPool | null {
+    if (expression.type !== Ast.NodeType.Dice || expression.getChildCount() !== 2) { return null; }
+    const countNode = expression.getChild(0);
+    const sidesNode = expression.getChild(1);
+    if (sidesNode.type !== Ast.NodeType.DiceSides) { return null; }
+    const { maxRollTimes, maxDiceSides, maxDice, maxEvaluationTime } = this.options;
+    // Limits on a dice count that is not known until it is rolled are reported by the interpreter.
+    if (maxRollTimes && (countNode.type !== Ast.NodeType.Number || Math.round(countNode.getAttribute('value')) > maxRollTimes)) {
+      return null;
+    }
+    const sides = sidesNode.getAttribute('value');
+    // Dice with custom faces or extra tens dice are rolled by the interpreter.
+    if (sides === undefined || sidesNode.getAttribute('bonus') || sidesNode.getAttribute('penalty')) { return null; }
+    if (maxDiceSides && sides > maxDiceSides) { return null; }
+    const num = this.compileNode(countNode, scope);
+    if (!num) { return null; }
+    const min = sides === 'fate' ? -1 : 1;
+    const max = sides === 'fate' ? 1 : Math.round(sides);
+    const span = expression.getSpan();
+
+    return state => {
+      const values: number[] = [];
+      // Dice rolled for the count are cleared from the tree with it, so they are not counted.
+      const { successes, failures } = state;
+      const times = Math.round(num(state));
+      state.successes = successes;
+      state.failures = failures;
+      for (let x = 0; x < times; x++) {
+        if (state.exceeded) { break; }
+        if (maxEvaluationTime && Date.now() - state.started > maxEvaluationTime) {
+          this.exceed(state, `Evaluation took too long. Maximum time allowed: ${maxEvaluationTime}ms.`, expression);
+          break;
+        }
+        if (maxDice && ++state.dice > maxDice) {
+          this.exceed(state, `Too many dice rolled. Maximum allowed: ${maxDice}.`, expression);
+          break;
+        }
+        const value = this.random.numberBetween(min, max);
+        const draw: DiceDraw = { min, max, value, source: 'roll', sides, die: x };
+        if (span) { draw.span = span; }
+        state.draws.push(draw);
+        values.push(value);
+      }
+      return values;
+    };
+  }
+
+  private compileKeepOrDrop(expression: Ast.ExpressionNode, scope: CompileScope): CompiledNode | null {
+    const pool = expression.getChildCount() > 0 ? this.compilePool(expression.getChild(0), scope) : null;
+    const keepCount = expression.getChildCount() > 1 ? this.compileNode(expression.getChild(1), scope) : () => 1;
+    if (!pool || !keepCount) { return null; }
+    const keep = expression.type === Ast.NodeType.Keep;
+    const order = expression.getAttribute('type') === 'lowest'
+      ? (a: number, b: number) => a - b
+      : (a: number, b: number) => b - a;
+    return state => {
+      const values = pool(state).sort(order);
+      const countTotal = keepCount(state);
+      let total = 0;
+      values.forEach((value, index) => {
+        if ((index < countTotal) === keep) {
+          total += value;
+          state.failures++;
+        }
+      });
+      return total;
+    };
+  }
+
+  // A comparison on dice counts the dice that pass and totals their values.
+  private compileSuccess(expression: Ast.ExpressionNode, scope: CompileScope): CompiledNode | null {
+    if (expression.getChildCount() !== 2) { return null; }
+    const pool = this.compilePool(expression.getChild(0), scope);
+    const rhs = this.compileNode(expression.getChild(1), scope);
+    if (!pool || !rhs) { return null; }
+    const compare = ComparisonOperators[expression.type];
+    return state => {
+      const target = rhs(state);
+      let total = 0;
+      pool(state).forEach(value => {
+        if (compare(value, target)) {
+          total += value;
+          state.successes++;
+        } else {
+          state.failures++;
+        }
+      });
+      return total;
+    };
+  }
+
+  private compileConditional(expression: Ast.ExpressionNode, scope: CompileScope): CompiledNode | null {
+    const condition = this.compileCondition(expression.getChild(0), scope);
+    const whenTrue = this.compileNode(expression.getChild(1), scope);
+    const whenFalse = this.compileNode(expression.getChild(2), scope);
+    if (!condition || !whenTrue || !whenFalse) { return null; }
+    return state => condition(state) ? whenTrue(state) : whenFalse(state);
+  }
+
+  private compileCondition(expression: Ast.ExpressionNode, scope: CompileScope): ((state: CompiledState) => boolean) | null {
+    const type = expression.type;
+    const count = expression.getChildCount();
+    if (ComparisonOperators.hasOwnProperty(type) && count > 1) {
+      const compare = ComparisonOperators[type];
+      const lhs = this.compileNode(expression.getChild(0), scope);
+      const rhs = this.compileNode(expression.getChild(1), scope);
+      return lhs && rhs ? state => compare(lhs(state), rhs(state)) : null;
+    } else if ((type === Ast.NodeType.And || type === Ast.NodeType.Or) && count === 2) {
+      const lhs = this.compileCondition(expression.getChild(0), scope);
+      const rhs = this.compileCondition(expression.getChild(1), scope);
+      if (!lhs || !rhs) { return null; }
+      const and = type === Ast.NodeType.And;
+      return state => lhs(state) !== and ? !and : rhs(state);
+    } else if (type === Ast.NodeType.Not && count === 1) {
+      const operand = this.compileCondition(expression.getChild(0), scope);
+      return operand ? state => !operand(state) : null;
+    }
+    const node = this.compileNode(expression, scope);
+    return node ? state => node(state) !== 0 : null;
+  }
+
+  private countPool(state: CompiledState, values: number[]): number {
+    let total = 0;
+    values.forEach(value => total += value);
+    state.failures += values.length;
+    return total;
+  }
+
+  private exceed(state: CompiledState, message: string, expression: Ast.ExpressionNode) {
+    state.errors.push(new InterpreterError(message, expression));
+    state.exceeded = true;
+  }
+
+  private countNodes(expression: Ast.ExpressionNode): number {
+    let count = 1;
+    expression.forEachChild(child => { count += this.countNodes(child); });
+    return count;
+  }
+}
@@ -0,0 +1,3 @@
+export * from './compile-options.interface.ts';
+export * from './compiled-expression.type.ts';
+export * from './dice-compiler.class.ts';
@@ -1,10 +1,26 @@
+import { AnalysisResult } from "./analyzer/analysis-result.class.ts";
+import { DiceAnalyzer } from "./analyzer/dice-analyzer.class.ts";
+import { Distribution } from "./analyzer/distribution.class.ts";
+import { SuccessAnalysisResult } from "./analyzer/success-analysis-result.class.ts";
+import { SuccessCounts } from "./analyzer/success-counts.class.ts";
+import { ExpressionNode, NodeType } from "./ast/index.ts";
+import { CompiledExpression, CompileOptions, DiceCompiler } from "./compiler/index.ts";
+import { DiceFormatter, FormatResult, FormatterOptions } from "./formatter/index.ts";
+import { CustomDiceList } from "./interpreter/custom-dice-list.interface.ts";
+import { DefaultFunctionRegistry } from "./interpreter/default-function-definitions.ts";
 import { DiceInterpreter } from "./interpreter/dice-interpreter.class.ts";
+import { InterpreterError } from "./interpreter/error-message.class.ts";
 import { FunctionDefinitionList } from "./interpreter/function-definition-list.class.ts";
+import { FunctionRegistry } from "./interpreter/function-registry.class.ts";
+import { registerMacro } from "./interpreter/macro-definitions.ts";
+import { VariableContext } from "./interpreter/variable-context.interface.ts";
 
 import { DiceLexer } from "./lexer/dice-lexer.class.ts";
-import { Parser } from "./parser/index.ts";
+import { Parser, ParserError } from "./parser/index.ts";
 import { DiceParser } from "./parser/dice-parser.class.ts";
-import { RandomProvider } from "./random/index.ts";
+import { DefaultRandomProvider, RandomProvider, SeededRandomProvider } from "./random/index.ts";
+import { DiceSimulator, SimulationOptions, SimulationResult, SimulationStatistic } from "./simulator/index.ts";
+import { SymbolicDiceList } from "./symbols/index.ts";
 import { InterpreterOptions } from "./interpreter/interpreter-options.interface.ts";
 import { CharacterStream } from "./lexer/character-stream.interface.ts";
 import { Lexer } from "./lexer/lexer.interface.ts";
@@ -12,18 +28,99 @@ import { DiceResult } from "./interpreter/dice-result.class.ts";
 import { DiceGenerator } from "./generator/dice-generator.class.ts";
 
 export class Dice {
+  protected macros?: FunctionRegistry;
+  protected customDice: CustomDiceList = {};
+  protected symbolicDice: SymbolicDiceList = {};
+
   constructor(
-    protected functions?: FunctionDefinitionList,
+    protected functions?: FunctionDefinitionList | FunctionRegistry,
     protected randomProvider?: RandomProvider,
     protected options?: InterpreterOptions,
   ) {}
 
-  roll(input: string | CharacterStream): DiceResult {
+  roll(input: string | CharacterStream, variables?: VariableContext, functions?: FunctionDefinitionList): DiceResult {
     const lexer = this.createLexer(input);
     const parser = this.createParser(lexer);
     const interpreter = this.createInterpreter();
     const parseResult = parser.parse();
-    return interpreter.interpret(parseResult.root!);
+    if (parseResult.errors.length) {
+      return new DiceResult(parseResult.root, '', 0, 0, 0, parseResult.errors);
+    }
+    return interpreter.interpret(parseResult.root, variables, functions);
+  }
+
+  compile(input: string | CharacterStream, options?: CompileOptions): CompiledExpression {
+    const parseResult = this.createParser(this.createLexer(input)).parse();
+    if (parseResult.errors.length) {
+      return () => new DiceResult(parseResult.root, '', 0, 0, 0, parseResult.errors);
+    }
+    return this.createCompiler().compile(parseResult.root, options);
+  }
+
+  analyze(input: string | CharacterStream, variables?: VariableContext): AnalysisResult {
+    const lexer = this.createLexer(input);
+    const parser = this.createParser(lexer);
+    const analyzer = this.createAnalyzer();
+    const parseResult = parser.parse();
+    if (parseResult.errors.length) {
+      return new AnalysisResult(parseResult.root, new Distribution(), parseResult.errors);
+    }
+    return analyzer.analyze(parseResult.root, variables);
+  }
+
+  analyzeSuccesses(input: string | CharacterStream, variables?: VariableContext): SuccessAnalysisResult {
+    const parseResult = this.createParser(this.createLexer(input)).parse();
+    if (parseResult.errors.length) {
+      return new SuccessAnalysisResult(parseResult.root, new SuccessCounts(), parseResult.errors);
+    }
+    return this.createAnalyzer().analyzeSuccesses(parseResult.root, variables);
+  }
+
+  simulate(input: string | CharacterStream, options?: SimulationOptions): SimulationResult {
+    const parseResult = this.createParser(this.createLexer(input)).parse();
+    if (parseResult.errors.length) {
+      const empty: SimulationStatistic = { mean: 0, standardDeviation: 0, standardError: 0, interval: [0, 0] };
+      return new SimulationResult(parseResult.root, new Map(), empty, empty, empty, parseResult.errors);
+    }
+    const random = options && options.random || new SeededRandomProvider(options && options.seed);
+    return this.createSimulator(random).simulate(parseResult.root, options);
+  }
+
+  format(input: string | CharacterStream, options?: FormatterOptions): FormatResult {
+    const parseResult = this.createParser(this.createLexer(input)).parse();
+    if (parseResult.errors.length) {
+      return new FormatResult(parseResult.root, '', parseResult.errors);
+    }
+    return new FormatResult(parseResult.root, this.createFormatter(options).format(parseResult.root), []);
+  }
+
+  define(input: string | CharacterStream): Array<ParserError | InterpreterError> {
+    const parseResult = this.createParser(this.createLexer(input)).parse();
+    if (parseResult.errors.length) { return parseResult.errors; }
+    if (!this.macros) {
+      const functions = this.functions instanceof FunctionRegistry
+        ? this.functions
+        : new FunctionRegistry(DefaultFunctionRegistry, this.functions);
+      this.macros = functions.createScope();
+    }
+    let node: ExpressionNode | undefined = parseResult.root;
+    while (node && node.type === NodeType.Define) {
+      registerMacro(this.macros, node);
+      node = node.getChildCount() > 1 ? node.getChild(1) : undefined;
+    }
+    return node ? [new InterpreterError("Macro libraries may only contain definitions.", node)] : [];
+  }
+
+  registerDice(name: string, faces: number[]): this {
+    this.expectDiceName(name, faces.length);
+    this.customDice[name] = [...faces];
+    return this;
+  }
+
+  registerSymbolicDice(name: string, faces: string[][]): this {
+    this.expectDiceName(name, faces.length);
+    this.symbolicDice[name] = faces.map(face => [...face]);
+    return this;
   }
 
   protected createLexer(input: string | CharacterStream): Lexer {
@@ -36,14 +133,59 @@ export class Dice {
 
   protected createInterpreter(): DiceInterpreter {
     return new DiceInterpreter(
-      this.functions,
+      this.macros || this.functions,
       this.randomProvider,
       this.createGenerator(),
-      this.options,
+      this.getInterpreterOptions(),
     );
   }
 
+  protected createSimulator(random: RandomProvider): DiceSimulator {
+    return new DiceSimulator(new DiceInterpreter(
+      this.macros || this.functions,
+      random,
+      this.createGenerator(),
+      this.getInterpreterOptions(),
+    ));
+  }
+
+  protected createCompiler(): DiceCompiler {
+    const random = this.randomProvider || new DefaultRandomProvider();
+    const generator = this.createGenerator();
+    const options = this.getInterpreterOptions();
+    const interpreter = new DiceInterpreter(this.macros || this.functions, random, generator, options);
+    return new DiceCompiler(interpreter, generator, random, options);
+  }
+
+  protected createAnalyzer(): DiceAnalyzer {
+    const { customDice, symbolicDice, maxMacroDepth } = this.getInterpreterOptions();
+    return new DiceAnalyzer({ customDice, symbolicDice, maxMacroDepth }, this.macros || this.functions);
+  }
+
+  protected createFormatter(options?: FormatterOptions): DiceFormatter {
+    return new DiceFormatter(options);
+  }
+
   protected createGenerator(): DiceGenerator {
     return new DiceGenerator();
   }
+
+  // Dice registered on this instance are added to any passed in the options.
+  private getInterpreterOptions(): InterpreterOptions {
+    const options = this.options || {};
+    return {
+      ...options,
+      customDice: { ...options.customDice, ...this.customDice },
+      symbolicDice: { ...options.symbolicDice, ...this.symbolicDice },
+    };
+  }
+
+  private expectDiceName(name: string, faceCount: number) {
+    if (!/^[a-zA-Z]+$/.test(name) || name.toLowerCase() === "f") {
+      throw new Error(`Invalid dice name: ${name}. Names may only contain letters and cannot be F.`);
+    }
+    if (!faceCount) {
+      throw new Error(`Dice ${name} must have at least one face.`);
+    }
+  }
 }
@@ -0,0 +1,61 @@
+import * as Ast from '../ast/index.ts';
+import { DiceGenerator } from '../generator/index.ts';
+import { FormatterOptions } from './formatter-options.interface.ts';
+
+export class DiceFormatter {
+  protected options: FormatterOptions;
+  protected generator: DiceGenerator;
+
+  constructor(options?: FormatterOptions) {
+    this.options = options || {};
+    const { spacing = 'normal', defaults = 'explicit' } = this.options;
+    this.generator = new DiceGenerator({ spacing, defaults });
+  }
+
+  format(expression: Ast.ExpressionNode): string {
+    const exp = this.options.sortTerms ? this.sortTerms(expression.copy()) : expression;
+    return this.generator.generate(exp);
+  }
+
+  // Addition is commutative, so the terms of a chain of additions can be put in a fixed order.
+  private sortTerms(expression: Ast.ExpressionNode): Ast.ExpressionNode {
+    if (expression.type !== Ast.NodeType.Add) {
+      const children: Ast.ExpressionNode[] = [];
+      expression.forEachChild(child => { children.push(this.sortTerms(child)); });
+      expression.clearChildren();
+      children.forEach(child => expression.addChild(child));
+      return expression;
+    }
+    const terms = this.collectTerms(expression, [])
+      .map(term => this.sortTerms(term))
+      .sort((a, b) => this.rank(a) - this.rank(b));
+    return terms.slice(1).reduce((lhs, rhs) => {
+      const add = Ast.Factory.create(Ast.NodeType.Add);
+      add.addChild(lhs);
+      add.addChild(rhs);
+      return add;
+    }, terms[0]);
+  }
+
+  private collectTerms(expression: Ast.ExpressionNode, terms: Ast.ExpressionNode[]): Ast.ExpressionNode[] {
+    if (expression.type !== Ast.NodeType.Add) {
+      terms.push(expression);
+      return terms;
+    }
+    expression.forEachChild(child => { this.collectTerms(child, terms); });
+    return terms;
+  }
+
+  // Dice come first, then anything else, then constants.
+  private rank(expression: Ast.ExpressionNode): number {
+    if (expression.type === Ast.NodeType.Number) { return 2; }
+    return this.hasDice(expression) ? 0 : 1;
+  }
+
+  private hasDice(expression: Ast.ExpressionNode): boolean {
+    if (expression.type === Ast.NodeType.Dice) { return true; }
+    let found = false;
+    expression.forEachChild(child => { found = found || this.hasDice(child); });
+    return found;
+  }
+}
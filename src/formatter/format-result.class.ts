@@ -0,0 +1,14 @@
+import { ExpressionNode } from '../ast/index.ts';
+import { ParserError } from '../parser/error-message.class.ts';
+
+export class FormatResult {
+  readonly expression: ExpressionNode;
+  readonly formatted: string;
+  readonly errors: ParserError[];
+
+  constructor(expression: ExpressionNode, formatted: string, errors: ParserError[]) {
+    this.expression = expression;
+    this.formatted = formatted;
+    this.errors = errors;
+  }
+}
@@ -0,0 +1,5 @@
+export interface FormatterOptions {
+  spacing?: 'normal' | 'compact';
+  defaults?: 'explicit' | 'elided';
+  sortTerms?: boolean;
+}
@@ -0,0 +1,3 @@
+export * from './dice-formatter.class.ts';
+export * from './format-result.class.ts';
+export * from './formatter-options.interface.ts';
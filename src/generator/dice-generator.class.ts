@@ -1,10 +1,66 @@
 import * as Ast from '../ast/index.ts';
 import { Generator } from './generator.interface.ts';
+import { GeneratorOptions } from './generator-options.interface.ts';
+import { SourceMapping } from './source-mapping.interface.ts';
+
+// How tightly each operator binds, following the parser. Anything not listed is a single factor.
+const Precedence: { [type: string]: number } = {
+  [Ast.NodeType.Let]: 0,
+  [Ast.NodeType.Define]: 0,
+  [Ast.NodeType.Conditional]: 1,
+  [Ast.NodeType.Or]: 2,
+  [Ast.NodeType.And]: 3,
+  [Ast.NodeType.Not]: 4,
+  [Ast.NodeType.Equal]: 5,
+  [Ast.NodeType.Greater]: 5,
+  [Ast.NodeType.GreaterOrEqual]: 5,
+  [Ast.NodeType.Less]: 5,
+  [Ast.NodeType.LessOrEqual]: 5,
+  [Ast.NodeType.NotEqual]: 5,
+  [Ast.NodeType.Add]: 6,
+  [Ast.NodeType.Subtract]: 6,
+  [Ast.NodeType.Negate]: 6,
+  [Ast.NodeType.Multiply]: 7,
+  [Ast.NodeType.Divide]: 7,
+  [Ast.NodeType.Modulo]: 7,
+  [Ast.NodeType.Exponent]: 7,
+};
+const FactorPrecedence = 8;
+
+// Nodes that the parser reads straight after dice or a group, so a comparison that follows them becomes a modifier.
+const ModifierNodeTypes = [
+  Ast.NodeType.Dice,
+  Ast.NodeType.Group,
+  Ast.NodeType.Explode,
+  Ast.NodeType.Keep,
+  Ast.NodeType.Drop,
+  Ast.NodeType.Critical,
+  Ast.NodeType.Reroll,
+  Ast.NodeType.Sort,
+  Ast.NodeType.Pool,
+];
+
+// The letter written for each type of success pool modifier.
+const PoolLetters: { [type: string]: string } = {
+  double: 't',
+  subtract: 'f',
+  glitch: 'g',
+};
 
 export class DiceGenerator implements Generator<string> {
+  protected options: GeneratorOptions;
+
+  constructor(options?: GeneratorOptions) {
+    this.options = options || {};
+  }
+
   generate(expression: Ast.ExpressionNode): string {
     switch (expression.type) {
       case Ast.NodeType.Number: return this.generateNumber(expression);
+      case Ast.NodeType.Variable: return this.generateVariable(expression);
+      case Ast.NodeType.Let: return this.generateLet(expression);
+      case Ast.NodeType.Define: return this.generateDefine(expression);
+      case Ast.NodeType.Bands: return this.generateBands(expression);
       case Ast.NodeType.Add: return this.generateAdd(expression);
       case Ast.NodeType.Subtract: return this.generateSubtract(expression);
       case Ast.NodeType.Multiply: return this.generateMultiply(expression);
@@ -23,71 +79,133 @@ export class DiceGenerator implements Generator<string> {
       case Ast.NodeType.GreaterOrEqual: return this.generateGreaterOrEqual(expression);
       case Ast.NodeType.Less: return this.generateLess(expression);
       case Ast.NodeType.LessOrEqual: return this.generateLessOrEqual(expression);
+      case Ast.NodeType.NotEqual: return this.generateNotEqual(expression);
+      case Ast.NodeType.Conditional: return this.generateConditional(expression);
+      case Ast.NodeType.And: return this.generateAnd(expression);
+      case Ast.NodeType.Or: return this.generateOr(expression);
+      case Ast.NodeType.Not: return this.generateNot(expression);
       case Ast.NodeType.Explode: return this.generateExplode(expression);
       case Ast.NodeType.Keep: return this.generateKeep(expression);
       case Ast.NodeType.Drop: return this.generateDrop(expression);
       case Ast.NodeType.Critical: return this.generateCritical(expression);
       case Ast.NodeType.Reroll: return this.generateReroll(expression);
       case Ast.NodeType.Sort: return this.generateSort(expression);
+      case Ast.NodeType.Pool: return this.generatePool(expression);
       default: throw new Error('Unrecognized node type.');
     }
   }
 
+  generateSourceMap(expression: Ast.ExpressionNode): SourceMapping[] {
+    const mappings: SourceMapping[] = [];
+    this.mapExpression(expression, this.generate(expression), 0, mappings);
+    return mappings;
+  }
+
   generateNumber(expression: Ast.ExpressionNode): string {
     return expression.getAttribute('value').toString();
   }
 
+  generateVariable(expression: Ast.ExpressionNode): string {
+    return (expression.getAttribute('external') ? '@' : '') + expression.getAttribute('name');
+  }
+
+  generateLet(expression: Ast.ExpressionNode): string {
+    this.expectChildCount(expression, 2);
+    return 'let ' + expression.getAttribute('name') + this.spaced('=') + this.generateOperand(expression.getChild(0), 1)
+      + '; ' + this.generate(expression.getChild(1));
+  }
+
+  generateDefine(expression: Ast.ExpressionNode): string {
+    const parameters: string[] = expression.getAttribute('parameters') || [];
+    const definition = 'def ' + expression.getAttribute('name') + '(' + parameters.join(', ') + ')' + this.spaced('=')
+      + this.generateOperand(expression.getChild(0), 1) + ';';
+    return expression.getChildCount() > 1 ? definition + ' ' + this.generate(expression.getChild(1)) : definition;
+  }
+
+  generateBands(expression: Ast.ExpressionNode): string {
+    this.expectChildCount(expression, 1);
+    const bands: Array<{ label: string, from?: number }> = expression.getAttribute('bands') || [];
+    const target = expression.getAttribute('target');
+    const entries = bands.map(band => band.from === undefined ? band.label : band.from + ' ' + band.label);
+    const direction = target === undefined ? '' : (expression.getAttribute('under') ? ' under ' : ' over ') + target;
+    return this.generate(expression.getChild(0)) + ' bands ' + entries.join(', ') + direction;
+  }
+
   generateAdd(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 2);
-    return this.generate(expression.getChild(0)) + ' + ' + this.generate(expression.getChild(1));
+    return this.generateBinary(expression, this.spaced('+'));
   }
 
   generateSubtract(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 2);
-    return this.generate(expression.getChild(0)) + ' - ' + this.generate(expression.getChild(1));
+    return this.generateBinary(expression, this.spaced('-'));
   }
 
   generateMultiply(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 2);
-    return this.generate(expression.getChild(0)) + ' * ' + this.generate(expression.getChild(1));
+    return this.generateBinary(expression, this.spaced('*'));
   }
 
   generateDivide(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 2);
-    return this.generate(expression.getChild(0)) + ' / ' + this.generate(expression.getChild(1));
+    return this.generateBinary(expression, this.spaced('/'));
   }
 
   generateModulo(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 2);
-    return this.generate(expression.getChild(0)) + ' % ' + this.generate(expression.getChild(1));
+    return this.generateBinary(expression, this.spaced('%'));
   }
 
   generateExponent(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 2);
-    return this.generate(expression.getChild(0)) + ' ^ ' + this.generate(expression.getChild(1));
+    return this.generateBinary(expression, this.spaced('**'));
   }
 
   generateNegate(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 1);
-    return '-' + this.generate(expression.getChild(0));
+    return '-' + this.generateOperand(expression.getChild(0), Precedence[Ast.NodeType.Multiply]);
   }
 
   generateDice(expression: Ast.ExpressionNode): string {
-    if (expression.getChildCount() === 0 || expression.getChild(0).type === Ast.NodeType.DiceRoll) {
-      return '[' + this.generateCommaList(expression) + ']';
+    const faces: Array<[number, number]> | undefined = expression.getAttribute('faces');
+    if (faces) {
+      return '[' + this.generateList(faces.length, x => faces[x][0] + '×' + faces[x][1]) + ']';
+    } else if (expression.getChildCount() === 0 || expression.getChild(0).type === Ast.NodeType.DiceRoll) {
+      return '[' + this.generateList(expression.getChildCount(), x => this.generate(expression.getChild(x))) + ']';
     } else {
       this.expectChildCount(expression, 2);
-      return this.generateWithParens(expression.getChild(0)) + 'd' + this.generateWithParens(expression.getChild(1));
+      // A named die needs its count, or the d and the name would be read as a variable.
+      const named = expression.getChild(1).getAttribute('name') !== undefined;
+      const count = this.isDefault(expression.getChild(0), 1) && !named ? '' : this.generateSimpleFactor(expression.getChild(0));
+      return count + 'd' + this.generateSimpleFactor(expression.getChild(1));
     }
   }
 
   generateDiceSides(expression: Ast.ExpressionNode): string {
+    const values: number[] | undefined = expression.getAttribute('values');
+    if (values) { return '{' + values.join(', ') + '}'; }
+    const name: string | undefined = expression.getAttribute('name');
+    if (name !== undefined) { return name; }
+    const percentile: string | undefined = expression.getAttribute('percentile');
+    if (percentile !== undefined) {
+      const bonus = expression.getAttribute('bonus');
+      const penalty = expression.getAttribute('penalty');
+      return percentile + (bonus ? 'b' + bonus : '') + (penalty ? 'p' + penalty : '');
+    }
     const val = expression.getAttribute('value').toString();
     return val === 'fate' ? 'F' : val;
   }
 
   generateDiceRoll(expression: Ast.ExpressionNode): string {
-    return expression.getAttribute('value').toString();
+    const symbols: string[] | undefined = expression.getAttribute('symbols');
+    if (symbols) { return symbols.length ? symbols.join('+') : 'blank'; }
+    const value = expression.getAttribute('value').toString();
+    const rerolls: number[] = expression.getAttribute('rerolls') || [];
+    switch (this.options.rerolls) {
+      case 'arrow': return rerolls.map(roll => roll + ' → ').join('') + value;
+      case 'strikethrough': return rerolls.map(roll => '~~' + roll + '~~ ').join('') + value;
+      default: return value;
+    }
   }
 
   generateFunction(expression: Ast.ExpressionNode): string {
@@ -95,12 +213,15 @@ export class DiceGenerator implements Generator<string> {
   }
 
   generateGroup(expression: Ast.ExpressionNode): string {
-    return '{' + this.generateCommaList(expression) + '}';
+    const element = Precedence[Ast.NodeType.Equal];
+    return '{' + this.generateList(expression.getChildCount(), x => this.generateOperand(expression.getChild(x), element)) + '}';
   }
 
   generateRepeat(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 2);
-    return this.generate(expression.getChild(0)) + '...' + this.generate(expression.getChild(1));
+    const element = Precedence[Ast.NodeType.Equal];
+    // A space keeps a count such as 5 from reading the ellipsis as a decimal point.
+    return this.generateOperand(expression.getChild(0), element) + ' ...' + this.generateOperand(expression.getChild(1), element);
   }
 
   generateEqual(expression: Ast.ExpressionNode): string {
@@ -123,6 +244,31 @@ export class DiceGenerator implements Generator<string> {
     return this.generateEqualityExpression(expression, '<=');
   }
 
+  generateNotEqual(expression: Ast.ExpressionNode): string {
+    return this.generateEqualityExpression(expression, '!=');
+  }
+
+  generateConditional(expression: Ast.ExpressionNode): string {
+    this.expectChildCount(expression, 3);
+    return this.generateOperand(expression.getChild(0), Precedence[Ast.NodeType.Or]) + this.spaced('?')
+      + this.generateOperand(expression.getChild(1), 1) + this.spaced(':') + this.generateOperand(expression.getChild(2), 1);
+  }
+
+  generateAnd(expression: Ast.ExpressionNode): string {
+    this.expectChildCount(expression, 2);
+    return this.generateBinary(expression, ' and ');
+  }
+
+  generateOr(expression: Ast.ExpressionNode): string {
+    this.expectChildCount(expression, 2);
+    return this.generateBinary(expression, ' or ');
+  }
+
+  generateNot(expression: Ast.ExpressionNode): string {
+    this.expectChildCount(expression, 1);
+    return 'not ' + this.generateOperand(expression.getChild(0), Precedence[Ast.NodeType.Not]);
+  }
+
   generateExplode(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 1);
     let exp = '!';
@@ -135,30 +281,42 @@ export class DiceGenerator implements Generator<string> {
   generateKeep(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 1);
     let exp = 'k';
-    if (expression.getAttribute('type') === 'highest') { exp += 'h'; }
+    if (expression.getAttribute('type') === 'highest' && this.options.defaults !== 'elided') { exp += 'h'; }
     if (expression.getAttribute('type') === 'lowest') { exp += 'l'; }
 
-    if (expression.getChildCount() > 1) { exp += this.generate(expression.getChild(1)); }
-    return this.generate(expression.getChild(0)) + exp;
+    exp += this.generateModifierCount(expression);
+    return this.generateModified(expression.getChild(0)) + exp;
   }
 
   generateDrop(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 1);
     let exp = 'd';
     if (expression.getAttribute('type') === 'highest') { exp += 'h'; }
-    if (expression.getAttribute('type') === 'lowest') { exp += 'l'; }
+    if (expression.getAttribute('type') === 'lowest' && this.options.defaults !== 'elided') { exp += 'l'; }
 
-    if (expression.getChildCount() > 1) { exp += this.generate(expression.getChild(1)); }
-    return this.generate(expression.getChild(0)) + exp;
+    exp += this.generateModifierCount(expression);
+    return this.generateModified(expression.getChild(0)) + exp;
+  }
+
+  generatePool(expression: Ast.ExpressionNode): string {
+    this.expectChildCount(expression, 1);
+    let pool = PoolLetters[expression.getAttribute('type')] || 't';
+    if (expression.getChildCount() > 1) {
+      // A single face is written without the equals sign, as in t10 or f1.
+      const condition = expression.getChild(1);
+      const single = condition.type === Ast.NodeType.Equal && condition.getChildCount() === 1;
+      pool += single ? this.generateSimpleFactor(condition.getChild(0)) : this.generate(condition);
+    }
+    return this.generateModified(expression.getChild(0)) + pool;
   }
 
   generateCritical(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 1);
     let critical = 'c';
-    if (expression.getAttribute('type') === 'success') { critical += 's'; }
+    if (expression.getAttribute('type') === 'success' && this.options.defaults !== 'elided') { critical += 's'; }
     if (expression.getAttribute('type') === 'failure') { critical += 'f'; }
     if (expression.getChildCount() > 1) { critical += this.generate(expression.getChild(1)); }
-    return this.generate(expression.getChild(0)) + critical;
+    return this.generateModified(expression.getChild(0)) + critical;
   }
 
   generateReroll(expression: Ast.ExpressionNode): string {
@@ -166,24 +324,116 @@ export class DiceGenerator implements Generator<string> {
     let reroll = 'r';
     if (expression.getAttribute('once')) { reroll += 'o'; }
     if (expression.getChildCount() > 1) { reroll += this.generate(expression.getChild(1)); }
-    return this.generate(expression.getChild(0)) + reroll;
+    return this.generateModified(expression.getChild(0)) + reroll;
   }
 
   generateSort(expression: Ast.ExpressionNode): string {
     this.expectChildCount(expression, 1);
     let sort = 's';
-    if (expression.getAttribute('direction') === 'ascending') { sort += 'a'; }
+    if (expression.getAttribute('direction') === 'ascending' && this.options.defaults !== 'elided') { sort += 'a'; }
     if (expression.getAttribute('direction') === 'descending') { sort += 'd'; }
-    return this.generate(expression.getChild(0)) + sort;
+    return this.generateModified(expression.getChild(0)) + sort;
+  }
+
+  private mapExpression(expression: Ast.ExpressionNode, output: string, offset: number, mappings: SourceMapping[]) {
+    if (expression.span) {
+      mappings.push({ expression, output: new Ast.SourceSpan(offset, offset + output.length), input: expression.span });
+    }
+    // Children are always rendered in order, so each one can be found after the previous one.
+    let cursor = 0;
+    expression.forEachChild(child => {
+      const childOutput = this.generate(child);
+      const index = output.indexOf(childOutput, cursor);
+      if (index < 0) { return; }
+      this.mapExpression(child, childOutput, offset + index, mappings);
+      cursor = index + childOutput.length;
+    });
   }
 
   private generateEqualityExpression(expression: Ast.ExpressionNode, operator: string): string {
     this.expectChildCount(expression, 1);
     if (expression.getChildCount() === 1) {
-      return operator + this.generate(expression.getChild(0));
-    } else {
-      return this.generate(expression.getChild(0)) + ' ' + operator + ' ' + this.generate(expression.getChild(1));
+      return operator + this.generateSimpleFactor(expression.getChild(0));
+    }
+    const lhs = expression.getChild(0);
+    const rhs = expression.getChild(1);
+    // Straight after dice the comparison is read as a modifier, which only takes a number or brackets.
+    if (this.isModifier(lhs) && expression.type !== Ast.NodeType.NotEqual) {
+      return this.generate(lhs) + this.spaced(operator) + this.generateSimpleFactor(rhs);
+    }
+    const operand = Precedence[Ast.NodeType.Add];
+    const lhsText = this.endsWithModifier(lhs) ? '(' + this.generate(lhs) + ')' : this.generateOperand(lhs, operand);
+    return lhsText + this.spaced(operator) + this.generateOperand(rhs, operand);
+  }
+
+  // Operators are left associative, so a right operand of the same precedence needs parentheses.
+  private generateBinary(expression: Ast.ExpressionNode, operator: string): string {
+    const precedence = this.precedence(expression);
+    return this.generateOperand(expression.getChild(0), precedence) + operator
+      + this.generateOperand(expression.getChild(1), precedence + 1);
+  }
+
+  // Letter modifiers straight after a letter (dF, !p, an elided count) would be read as one identifier, so they need a space.
+  private generateModified(expression: Ast.ExpressionNode): string {
+    const output = this.generate(expression);
+    return /[a-zA-Z]$/.test(output) ? output + ' ' : output;
+  }
+
+  // Keep and drop counts default to 1, which is written out or left off depending on the defaults option.
+  private generateModifierCount(expression: Ast.ExpressionNode): string {
+    if (expression.getChildCount() < 2) { return this.options.defaults === 'explicit' ? '1' : ''; }
+    return this.isDefault(expression.getChild(1), 1) ? '' : this.generateSimpleFactor(expression.getChild(1));
+  }
+
+  private isDefault(expression: Ast.ExpressionNode, value: number): boolean {
+    return this.options.defaults === 'elided' && expression.type === Ast.NodeType.Number && expression.getAttribute('value') === value;
+  }
+
+  private spaced(operator: string): string {
+    return this.options.spacing === 'compact' ? operator : ' ' + operator + ' ';
+  }
+
+  private generateOperand(expression: Ast.ExpressionNode, minPrecedence: number): string {
+    const output = this.generate(expression);
+    return this.precedence(expression) < minPrecedence ? '(' + output + ')' : output;
+  }
+
+  // Dice counts, sides and modifier arguments can only be a plain number or a bracketed expression.
+  private generateSimpleFactor(expression: Ast.ExpressionNode): string {
+    const plain = (expression.type === Ast.NodeType.Number && expression.getAttribute('value') >= 0)
+      || expression.type === Ast.NodeType.DiceSides;
+    return plain ? this.generate(expression) : '(' + this.generate(expression) + ')';
+  }
+
+  private precedence(expression: Ast.ExpressionNode): number {
+    if (expression.type === Ast.NodeType.Number && expression.getAttribute('value') < 0) {
+      return Precedence[Ast.NodeType.Negate];
     }
+    if (Precedence.hasOwnProperty(expression.type) && !(this.isComparison(expression) && expression.getChildCount() < 2)) {
+      return Precedence[expression.type];
+    }
+    return FactorPrecedence;
+  }
+
+  private isComparison(expression: Ast.ExpressionNode): boolean {
+    return Precedence[expression.type] === Precedence[Ast.NodeType.Equal];
+  }
+
+  private isModifier(expression: Ast.ExpressionNode): boolean {
+    if (ModifierNodeTypes.indexOf(expression.type) > -1) { return true; }
+    return this.isComparison(expression) && expression.type !== Ast.NodeType.NotEqual
+      && expression.getChildCount() > 1 && this.isModifier(expression.getChild(0));
+  }
+
+  // Whether the output ends with dice or a group that a following comparison would attach to.
+  private endsWithModifier(expression: Ast.ExpressionNode): boolean {
+    if (ModifierNodeTypes.indexOf(expression.type) > -1) { return true; }
+    const count = expression.getChildCount();
+    const precedence = this.precedence(expression);
+    if (count === 0 || precedence === FactorPrecedence || this.isComparison(expression)) { return false; }
+    const last = expression.getChild(count - 1);
+    const minPrecedence = expression.type === Ast.NodeType.Negate ? Precedence[Ast.NodeType.Multiply] : precedence + 1;
+    return this.precedence(last) >= minPrecedence && this.endsWithModifier(last);
   }
 
   private generateCommaList(expression: Ast.ExpressionNode): string {
@@ -195,12 +445,14 @@ export class DiceGenerator implements Generator<string> {
     return buffer;
   }
 
-  private generateWithParens(expression: Ast.ExpressionNode): string {
-    if (expression.getChildCount() === 0) {
-      return this.generate(expression);
-    } else {
-      return '(' + this.generate(expression) + ')';
-    }
+  // Rolled values are cut short after maxListLength, with a count of how many were left out.
+  private generateList(count: number, generateItem: (index: number) => string): string {
+    const { maxListLength } = this.options;
+    const shown = maxListLength !== undefined && count > maxListLength ? maxListLength : count;
+    const items: string[] = [];
+    for (let x = 0; x < shown; x++) { items.push(generateItem(x)); }
+    if (shown < count) { items.push(`... ${count - shown} more`); }
+    return items.join(', ');
   }
 
   private expectChildCount(expression: Ast.ExpressionNode, count: number) {
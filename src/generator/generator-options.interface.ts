@@ -0,0 +1,6 @@
+export interface GeneratorOptions {
+  rerolls?: 'hidden' | 'arrow' | 'strikethrough';
+  maxListLength?: number;
+  spacing?: 'normal' | 'compact';
+  defaults?: 'explicit' | 'elided';
+}
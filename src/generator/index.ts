@@ -1,2 +1,4 @@
 export * from './dice-generator.class.ts';
 export * from './generator.interface.ts';
+export * from './generator-options.interface.ts';
+export * from './source-mapping.interface.ts';
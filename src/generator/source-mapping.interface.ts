@@ -0,0 +1,7 @@
+import { ExpressionNode, SourceSpan } from '../ast/index.ts';
+
+export interface SourceMapping {
+  expression: ExpressionNode;
+  output: SourceSpan;
+  input: SourceSpan;
+}
@@ -0,0 +1,3 @@
+export interface CustomDiceList {
+  [name: string]: number[];
+}
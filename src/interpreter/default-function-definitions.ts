@@ -1,23 +1,147 @@
-import { FunctionDefinitionList } from './function-definition-list.class.ts';
+import { ExpressionNode } from '../ast/index.ts';
+import { DiceInterpreter } from './dice-interpreter.class.ts';
+import { InterpreterError } from './error-message.class.ts';
+import { FunctionRegistry } from './function-registry.class.ts';
 
-export const DefaultFunctionDefinitions = new FunctionDefinitionList();
+export const DefaultFunctionRegistry = new FunctionRegistry();
 
-DefaultFunctionDefinitions['floor'] = (interpreter, functionNode, errors) => {
+// Every value an argument list stands for: each kept die or group element for dice, otherwise the total.
+function argumentValues(interpreter: DiceInterpreter, functionNode: ExpressionNode, errors: InterpreterError[]): number[] {
+  const values: number[] = [];
+  functionNode.forEachChild(arg => {
+    const total = interpreter.evaluate(arg, errors);
+    values.push(...(interpreter.getDiceValues(arg, errors) || [total]));
+  });
+  return values;
+}
+
+function diceArgument(interpreter: DiceInterpreter, functionNode: ExpressionNode, errors: InterpreterError[]): number[] | null {
+  const arg = functionNode.getChild(0);
+  interpreter.evaluate(arg, errors);
+  const values = interpreter.getDiceValues(arg, errors);
+  if (!values) {
+    errors.push(new InterpreterError(`Invalid argument for ${functionNode.getAttribute('name')}: expected dice or a group.`, arg));
+  }
+  return values;
+}
+
+function countArgument(interpreter: DiceInterpreter, functionNode: ExpressionNode, errors: InterpreterError[]): number | null {
+  if (functionNode.getChildCount() < 2) { return 1; }
+  const arg = functionNode.getChild(1);
+  const count = interpreter.evaluate(arg, errors);
+  if (!Number.isInteger(count) || count < 0) {
+    errors.push(new InterpreterError(`Invalid argument for ${functionNode.getAttribute('name')}: ${count}. Expected a whole number.`, arg));
+    return null;
+  }
+  return count;
+}
+
+function sumOf(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function extreme(direction: 'highest' | 'lowest') {
+  return (interpreter: DiceInterpreter, functionNode: ExpressionNode, errors: InterpreterError[]): number => {
+    const values = diceArgument(interpreter, functionNode, errors);
+    const count = countArgument(interpreter, functionNode, errors);
+    if (!values || count === null) { return 0; }
+    const sorted = values.sort((a, b) => direction === 'highest' ? b - a : a - b);
+    return sumOf(sorted.slice(0, count));
+  };
+}
+
+DefaultFunctionRegistry.register('floor', (interpreter, functionNode, errors) => {
   return Math.floor(interpreter.evaluate(functionNode.getChild(0), errors));
-};
+}, { arity: 1, description: 'Rounds down to the nearest integer.' });
 
-DefaultFunctionDefinitions['ceil'] = (interpreter, functionNode, errors) => {
+DefaultFunctionRegistry.register('ceil', (interpreter, functionNode, errors) => {
   return Math.ceil(interpreter.evaluate(functionNode.getChild(0), errors));
-};
+}, { arity: 1, description: 'Rounds up to the nearest integer.' });
 
-DefaultFunctionDefinitions['abs'] = (interpreter, functionNode, errors) => {
+DefaultFunctionRegistry.register('abs', (interpreter, functionNode, errors) => {
   return Math.abs(interpreter.evaluate(functionNode.getChild(0), errors));
-};
+}, { arity: 1, description: 'Removes the sign of a number.' });
 
-DefaultFunctionDefinitions['round'] = (interpreter, functionNode, errors) => {
+DefaultFunctionRegistry.register('round', (interpreter, functionNode, errors) => {
   return Math.round(interpreter.evaluate(functionNode.getChild(0), errors));
-};
+}, { arity: 1, description: 'Rounds to the nearest integer.' });
 
-DefaultFunctionDefinitions['sqrt'] = (interpreter, functionNode, errors) => {
+DefaultFunctionRegistry.register('sqrt', (interpreter, functionNode, errors) => {
   return Math.sqrt(interpreter.evaluate(functionNode.getChild(0), errors));
-};
+}, { arity: 1, description: 'Takes the square root of a number.' });
+
+DefaultFunctionRegistry.register('trunc', (interpreter, functionNode, errors) => {
+  return Math.trunc(interpreter.evaluate(functionNode.getChild(0), errors));
+}, { arity: 1, description: 'Removes the fractional part of a number.' });
+
+DefaultFunctionRegistry.register('sign', (interpreter, functionNode, errors) => {
+  return Math.sign(interpreter.evaluate(functionNode.getChild(0), errors));
+}, { arity: 1, description: 'Returns 1 for positive numbers, -1 for negative numbers and 0 for zero.' });
+
+DefaultFunctionRegistry.register('pow', (interpreter, functionNode, errors) => {
+  return Math.pow(interpreter.evaluate(functionNode.getChild(0), errors), interpreter.evaluate(functionNode.getChild(1), errors));
+}, { arity: 2, description: 'Raises a number to a power.' });
+
+DefaultFunctionRegistry.register('log', (interpreter, functionNode, errors) => {
+  const value = interpreter.evaluate(functionNode.getChild(0), errors);
+  if (value <= 0) {
+    errors.push(new InterpreterError(`Invalid argument for log: ${value}. Expected a positive number.`, functionNode.getChild(0)));
+    return 0;
+  }
+  if (functionNode.getChildCount() < 2) { return Math.log(value); }
+  const base = interpreter.evaluate(functionNode.getChild(1), errors);
+  if (base <= 0 || base === 1) {
+    const message = `Invalid argument for log: ${base}. Expected a positive base other than 1.`;
+    errors.push(new InterpreterError(message, functionNode.getChild(1)));
+    return 0;
+  }
+  return Math.log(value) / Math.log(base);
+}, { arity: { min: 1, max: 2 }, description: 'Takes the natural logarithm of a number, or its logarithm in the given base.' });
+
+DefaultFunctionRegistry.register('clamp', (interpreter, functionNode, errors) => {
+  const value = interpreter.evaluate(functionNode.getChild(0), errors);
+  const min = interpreter.evaluate(functionNode.getChild(1), errors);
+  const max = interpreter.evaluate(functionNode.getChild(2), errors);
+  if (min > max) {
+    errors.push(new InterpreterError(`Invalid arguments for clamp: ${min} is greater than ${max}.`, functionNode));
+    return value;
+  }
+  return Math.min(Math.max(value, min), max);
+}, { arity: 3, description: 'Limits a number to the range between a minimum and a maximum.' });
+
+DefaultFunctionRegistry.register('min', (interpreter, functionNode, errors) => {
+  const values = argumentValues(interpreter, functionNode, errors);
+  return values.length ? Math.min(...values) : 0;
+}, { arity: { min: 1 }, description: 'Returns the smallest of its arguments, or of the dice rolled.' });
+
+DefaultFunctionRegistry.register('max', (interpreter, functionNode, errors) => {
+  const values = argumentValues(interpreter, functionNode, errors);
+  return values.length ? Math.max(...values) : 0;
+}, { arity: { min: 1 }, description: 'Returns the largest of its arguments, or of the dice rolled.' });
+
+DefaultFunctionRegistry.register('sum', (interpreter, functionNode, errors) => {
+  return sumOf(argumentValues(interpreter, functionNode, errors));
+}, { arity: { min: 1 }, description: 'Adds up its arguments, or the dice rolled.' });
+
+DefaultFunctionRegistry.register('avg', (interpreter, functionNode, errors) => {
+  const values = argumentValues(interpreter, functionNode, errors);
+  return values.length ? sumOf(values) / values.length : 0;
+}, { arity: { min: 1 }, description: 'Averages its arguments, or the dice rolled.' });
+
+DefaultFunctionRegistry.register('count', (interpreter, functionNode, errors) => {
+  if (functionNode.getChildCount() < 2) { return argumentValues(interpreter, functionNode, errors).length; }
+  const values = diceArgument(interpreter, functionNode, errors);
+  const face = interpreter.evaluate(functionNode.getChild(1), errors);
+  return values ? values.filter(value => value === face).length : 0;
+}, { arity: { min: 1, max: 2 }, description: 'Counts the dice rolled, or the dice showing the given face.' });
+
+DefaultFunctionRegistry.register('highest', extreme('highest'),
+  { arity: { min: 1, max: 2 }, description: 'Adds up the highest n dice, or the highest die when n is omitted.' });
+
+DefaultFunctionRegistry.register('lowest', extreme('lowest'),
+  { arity: { min: 1, max: 2 }, description: 'Adds up the lowest n dice, or the lowest die when n is omitted.' });
+
+DefaultFunctionRegistry.register('unique', (interpreter, functionNode, errors) => {
+  const values = diceArgument(interpreter, functionNode, errors);
+  return values ? new Set(values).size : 0;
+}, { arity: 1, description: 'Counts the different faces among the dice rolled.' });
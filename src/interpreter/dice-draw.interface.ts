@@ -0,0 +1,12 @@
+import { SourceSpan } from '../ast/index.ts';
+import { RandomDraw } from '../random/index.ts';
+
+export type DiceDrawSource = 'roll' | 'explode' | 'reroll' | 'tens';
+
+export interface DiceDraw extends RandomDraw {
+  source: DiceDrawSource;
+  sides: number | string | number[];
+  die: number;
+  face?: number;
+  span?: SourceSpan;
+}
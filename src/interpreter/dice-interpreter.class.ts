@@ -1,12 +1,65 @@
 import * as Ast from '../ast/index.ts';
 import { DiceGenerator } from '../generator/index.ts';
 import { DefaultRandomProvider, RandomProvider } from '../random/index.ts';
-import { DefaultFunctionDefinitions } from './default-function-definitions.ts';
+import { SymbolCounts, SymbolResult } from '../symbols/index.ts';
+import { DefaultFunctionRegistry } from './default-function-definitions.ts';
+import { DiceDraw, DiceDrawSource } from './dice-draw.interface.ts';
+import { DieBreakdown, DieModifier, DieModifiers } from './die-breakdown.interface.ts';
 import { DiceResult } from './dice-result.class.ts';
 import { InterpreterError } from './error-message.class.ts';
 import { FunctionDefinitionList } from './function-definition-list.class.ts';
+import { FunctionRegistry, RegisteredFunction } from './function-registry.class.ts';
 import { Interpreter } from './interpreter.interface.ts';
 import { InterpreterOptions } from './interpreter-options.interface.ts';
+import { registerMacro } from './macro-definitions.ts';
+import { Outcome, OutcomeBands } from './outcome-bands.interface.ts';
+import { SuccessPool } from './success-pool.interface.ts';
+import { VariableContext } from './variable-context.interface.ts';
+
+const ComparisonNodeTypes = [
+  Ast.NodeType.Equal,
+  Ast.NodeType.Greater,
+  Ast.NodeType.GreaterOrEqual,
+  Ast.NodeType.Less,
+  Ast.NodeType.LessOrEqual,
+  Ast.NodeType.NotEqual,
+];
+
+const DiceModifierNodeTypes = [
+  ...ComparisonNodeTypes,
+  Ast.NodeType.Explode,
+  Ast.NodeType.Keep,
+  Ast.NodeType.Drop,
+  Ast.NodeType.Critical,
+  Ast.NodeType.Reroll,
+  Ast.NodeType.Sort,
+];
+
+const DefaultMaxMacroDepth = 100;
+
+// The state each type of success pool modifier marks on the dice it matches.
+const PoolStates: { [type: string]: 'doubled' | 'subtracted' | 'glitched' } = {
+  double: 'doubled',
+  subtract: 'subtracted',
+  glitch: 'glitched',
+};
+
+interface EvaluationBudget {
+  dice: number;
+  nodes: number;
+  macroDepth: number;
+  started: number;
+  exceeded: boolean;
+}
+
+interface PoolTally {
+  dice: number;
+  successes: number;
+  doubled: number;
+  subtracted: number;
+  glitches: number;
+  botches: number;
+}
 
 interface SortedDiceRolls {
   rolls: Ast.ExpressionNode[];
@@ -14,27 +67,55 @@ interface SortedDiceRolls {
 }
 
 export class DiceInterpreter implements Interpreter<DiceResult> {
-  protected functions: FunctionDefinitionList;
+  protected functions: FunctionRegistry;
+  protected callFunctions: FunctionRegistry;
   protected random: RandomProvider;
   protected generator: DiceGenerator;
   protected options: InterpreterOptions;
-
-  constructor(functions?: FunctionDefinitionList, random?: RandomProvider, generator?: DiceGenerator, options?: InterpreterOptions) {
-    this.functions = DefaultFunctionDefinitions;
-    (<any>Object).assign(this.functions, functions);
+  protected variables: VariableContext = {};
+  protected draws: DiceDraw[] = [];
+  protected budget: EvaluationBudget = { dice: 0, nodes: 0, macroDepth: 0, started: Date.now(), exceeded: false };
+
+  constructor(
+    functions?: FunctionDefinitionList | FunctionRegistry,
+    random?: RandomProvider,
+    generator?: DiceGenerator,
+    options?: InterpreterOptions
+  ) {
+    this.functions = functions instanceof FunctionRegistry ? functions : new FunctionRegistry(DefaultFunctionRegistry, functions);
+    this.callFunctions = this.functions;
     this.random = random || new DefaultRandomProvider();
     this.generator = generator || new DiceGenerator();
     this.options = options || {};
   }
 
-  interpret(expression: Ast.ExpressionNode): DiceResult {
+  interpret(expression: Ast.ExpressionNode, variables?: VariableContext, functions?: FunctionDefinitionList): DiceResult {
     const exp = expression.copy();
     const errors: InterpreterError[] = [];
-    const total = this.evaluate(exp, errors);
+    const total = this.evaluateRoot(exp, errors, variables, functions);
     const successes = this.countSuccesses(exp, errors);
     const fails = this.countFailures(exp, errors);
     const renderedExpression = this.generator.generate(exp);
-    return new DiceResult(exp, renderedExpression, total, successes, fails, errors);
+    const breakdown = this.createBreakdown(exp);
+    const symbols = this.countSymbols(exp);
+    const outcome = this.findOutcome(exp, total);
+    const pool = this.countPool(exp);
+    return new DiceResult(exp, renderedExpression, total, successes, fails, errors, this.draws, breakdown, symbols, outcome, pool);
+  }
+
+  // Starts a new roll of an expression the caller has already copied, without rendering the result.
+  evaluateRoot(expression: Ast.ExpressionNode, errors: InterpreterError[], variables?: VariableContext,
+    functions?: FunctionDefinitionList): number {
+    this.variables = variables || {};
+    this.callFunctions = functions ? this.functions.createScope(functions) : this.functions;
+    this.draws = [];
+    this.budget = { dice: 0, nodes: 0, macroDepth: 0, started: Date.now(), exceeded: false };
+    return this.spendNodes(this.countNodes(expression), expression, errors) ? this.evaluate(expression, errors) : 0;
+  }
+
+  // The dice drawn since the last call to evaluateRoot.
+  getDraws(): DiceDraw[] {
+    return this.draws;
   }
 
   evaluate(expression: Ast.ExpressionNode, errors: InterpreterError[]): any {
@@ -45,9 +126,14 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
       return this.evaluateNumber(expression, errors);
     } else if (expression.type === Ast.NodeType.DiceSides) {
       return this.evaluateDiceSides(expression, errors);
-    } else if (!expression.getAttribute('value')) {
+    } else if (expression.type === Ast.NodeType.Variable) {
+      return this.evaluateVariable(expression, errors);
+    } else if (expression.getAttribute('value') === undefined) {
       let value: any = 0;
       switch (expression.type) {
+        case Ast.NodeType.Let: value = this.evaluateLet(expression, errors); break;
+        case Ast.NodeType.Define: value = this.evaluateDefine(expression, errors); break;
+        case Ast.NodeType.Bands: value = this.evaluateBands(expression, errors); break;
         case Ast.NodeType.Add: value = this.evaluateAdd(expression, errors); break;
         case Ast.NodeType.Subtract: value = this.evaluateSubtract(expression, errors); break;
         case Ast.NodeType.Multiply: value = this.evaluateMultiply(expression, errors); break;
@@ -65,11 +151,17 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
         case Ast.NodeType.Critical: value = this.evaluateCritical(expression, errors); break;
         case Ast.NodeType.Reroll: value = this.evaluateReroll(expression, errors); break;
         case Ast.NodeType.Sort: value = this.evaluateSort(expression, errors); break;
+        case Ast.NodeType.Pool: value = this.evaluatePool(expression, errors); break;
         case Ast.NodeType.Equal: value = this.evaluateEqual(expression, errors); break;
         case Ast.NodeType.Greater: value = this.evaluateGreater(expression, errors); break;
         case Ast.NodeType.GreaterOrEqual: value = this.evaluateGreaterOrEqual(expression, errors); break;
         case Ast.NodeType.Less: value = this.evaluateLess(expression, errors); break;
         case Ast.NodeType.LessOrEqual: value = this.evaluateLessOrEqual(expression, errors); break;
+        case Ast.NodeType.NotEqual: value = this.evaluateNotEqual(expression, errors); break;
+        case Ast.NodeType.Conditional: value = this.evaluateConditional(expression, errors); break;
+        case Ast.NodeType.And: value = this.evaluateAnd(expression, errors); break;
+        case Ast.NodeType.Or: value = this.evaluateOr(expression, errors); break;
+        case Ast.NodeType.Not: value = this.evaluateNot(expression, errors); break;
         default:
           errors.push(new InterpreterError(`Unrecognized node type '${expression.type}'.`, expression));
           return 0;
@@ -118,6 +210,63 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     return expression.getAttribute('value');
   }
 
+  evaluateLet(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (!this.expectChildCount(expression, 2, errors)) { return 0; }
+    this.evaluate(expression.getChild(0), errors);
+    return this.evaluate(expression.getChild(1), errors);
+  }
+
+  evaluateDefine(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (expression.getChildCount() < 2) { return 0; }
+    const functions = this.callFunctions;
+    this.callFunctions = registerMacro(functions.createScope(), expression);
+    const value = this.evaluate(expression.getChild(1), errors);
+    this.callFunctions = functions;
+    return value;
+  }
+
+  evaluateBands(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (!this.expectChildCount(expression, 1, errors)) { return 0; }
+    return this.evaluate(expression.getChild(0), errors);
+  }
+
+  evaluateMacro(define: Ast.ExpressionNode, expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (!this.checkBudget(expression, errors)) { return 0; }
+    const maxMacroDepth = this.options.maxMacroDepth || DefaultMaxMacroDepth;
+    if (this.budget.macroDepth >= maxMacroDepth) {
+      this.exceedBudget(`Macro calls nested too deeply. Maximum depth allowed: ${maxMacroDepth}.`, expression, errors);
+      return 0;
+    }
+    // Arguments are evaluated where the macro is called, then bound to its parameters with let.
+    const parameters: string[] = define.getAttribute('parameters') || [];
+    let body = define.getChild(0).copy();
+    parameters.forEach((name, index) => {
+      const binding = Ast.Factory.create(Ast.NodeType.Let).setAttribute('name', name);
+      binding.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', this.evaluate(expression.getChild(index), errors)));
+      binding.addChild(body);
+      body = binding;
+    });
+    if (!this.spendNodes(this.countNodes(body), expression, errors)) { return 0; }
+    expression.setAttribute('expansion', body);
+    this.budget.macroDepth++;
+    const value = this.evaluate(body, errors);
+    this.budget.macroDepth--;
+    return value;
+  }
+
+  evaluateVariable(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    const name = expression.getAttribute('name');
+    if (!expression.getAttribute('external')) {
+      const binding = this.findBinding(expression, name);
+      if (binding) { return binding.getChild(0).getAttribute('value'); }
+    }
+    if (Object.prototype.hasOwnProperty.call(this.variables, name)) {
+      return this.variables[name];
+    }
+    errors.push(new InterpreterError(`Unknown variable: ${name}.`, expression));
+    return 0;
+  }
+
   evaluateDiceSides(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
     return expression.getAttribute('value');
   }
@@ -139,18 +288,33 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     }
 
     const sides = expression.getChild(1);
-    const sidesValue = this.evaluate(sides, errors);
-    if (maxDiceSides && sidesValue > maxDiceSides) {
+    const name: string | undefined = sides.getAttribute('name');
+    const symbolicDice = this.options.symbolicDice || {};
+    if (name !== undefined && symbolicDice.hasOwnProperty(name)) {
+      return this.rollSymbolic(expression, name, symbolicDice[name], num, errors);
+    }
+    const customDice = this.options.customDice || {};
+    if (name !== undefined && !customDice.hasOwnProperty(name)) {
+      errors.push(new InterpreterError(`Unknown dice: ${name}.`, expression));
+      return 0;
+    }
+    const faces: number[] | undefined = name !== undefined ? customDice[name] : sides.getAttribute('values');
+    const sidesValue = faces || this.evaluate(sides, errors);
+    if (maxDiceSides && !faces && sidesValue > maxDiceSides) {
       errors.push(new InterpreterError(`Invalid number of dice sides: ${sidesValue}. Maximum allowed: ${maxDiceSides}.`, expression));
       return null;
     }
     expression.setAttribute('sides', sidesValue);
 
     expression.clearChildren();
+    const percentile = sides.getAttribute('percentile') !== undefined;
+    if (!percentile && this.shouldAggregate(expression, num)) { return this.rollAggregated(expression, faces || sides, num, errors); }
 
     let total = 0;
     for (let x = 0; x < num; x++) {
-      const diceRoll = this.createDiceRoll(sides, errors);
+      if (!this.spendDice(expression, errors)) { break; }
+      const diceRoll = this.createDiceRoll(faces || sides, errors, 'roll', x, expression);
+      if (percentile) { this.rollTens(diceRoll, sides, x, expression, errors); }
       expression.addChild(diceRoll);
       total += this.evaluate(diceRoll, errors);
     }
@@ -159,12 +323,13 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
 
   evaluateFunction(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
     const fName = expression.getAttribute('name');
-    if (Object.keys(this.functions).indexOf(fName) === -1) {
+    const fn = this.callFunctions.get(fName);
+    if (!fn) {
       errors.push(new InterpreterError(`Unknown function: ${fName}`, expression));
       return 0;
     }
-    const result = this.functions[fName](this, expression, errors);
-    return result;
+    if (!this.checkArity(fn, expression, errors)) { return 0; }
+    return fn.definition(this, expression, errors);
   }
 
   evaluateGroup(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
@@ -185,6 +350,7 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
 
     let total = 0;
     for (let x = 0; x < times; x++) {
+      if (!this.spendNodes(this.countNodes(lhs), expression, errors)) { break; }
       const copy = lhs.copy();
       parent?.addChild(copy);
       total += this.evaluate(copy, errors);
@@ -197,18 +363,21 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     const dice = this.findDiceOrGroupNode(expression, errors);
     if (!dice) { return 0; }
     const penetrate = expression.getAttribute('penetrate');
+    const compound = expression.getAttribute('compound');
+    const { maxExplodeDepth } = this.options;
 
     const sides = dice.getAttribute('sides');
 
     let condition: Ast.ExpressionNode;
     if (expression.getChildCount() > 1) {
       condition = expression.getChild(1);
-      if (this.wouldRollAgainForever(dice, condition, errors)) {
-        return 0;
-      }
     } else {
       condition = Ast.Factory.create(Ast.NodeType.Equal);
-      condition.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', sides));
+      condition.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', this.getHighestFace(sides)));
+    }
+    // A die whose faces are all its highest face, such as 1d1, would explode on every roll.
+    if (this.wouldRollAgainForever(dice, condition, errors)) {
+      return 0;
     }
 
     this.evaluate(dice, errors);
@@ -216,16 +385,32 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     const newRolls: Ast.ExpressionNode[] = [];
     let total = 0;
 
-    dice.forEachChild(die => {
+    dice.forEachChild((die, index) => {
       if (!die.getAttribute('drop')) {
         let dieValue = this.evaluate(die, errors);
+        const rolls = [dieValue];
         total += dieValue;
+        let depth = 0;
         while (condition && this.evaluateComparison(dieValue, condition, errors)) {
-          die = this.createDiceRoll(sides, errors);
-          dieValue = this.evaluate(die, errors);
+          if (maxExplodeDepth && ++depth > maxExplodeDepth) {
+            this.exceedBudget(`Explosion chain too long. Maximum depth allowed: ${maxExplodeDepth}.`, expression, errors);
+            break;
+          }
+          if (!this.spendDice(expression, errors)) { break; }
+          this.markDie(die, 'exploded', expression);
+          const newRoll = this.createDiceRoll(sides, errors, 'explode', index, dice);
+          dieValue = this.evaluate(newRoll, errors);
           if (penetrate) { dieValue -= 1; }
           total += dieValue;
-          newRolls.push(die);
+          if (compound) {
+            rolls.push(dieValue);
+          } else {
+            newRolls.push(this.markDie(newRoll, 'explosion', expression));
+          }
+        }
+        if (compound) {
+          die.setAttribute('value', rolls.reduce((sum, roll) => sum + roll, 0));
+          die.setAttribute('rolls', rolls);
         }
       }
     });
@@ -248,10 +433,10 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     let total = 0;
     rolls.forEach(roll => {
       if (count < countTotal) {
-        roll.setAttribute('drop', false);
+        this.markDie(roll, 'dropped', null).setAttribute('drop', false);
         total += roll.getAttribute('value');
       } else {
-        roll.setAttribute('drop', true);
+        this.markDie(roll, 'dropped', expression).setAttribute('drop', true);
       }
       count++;
     });
@@ -271,9 +456,9 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     let total = 0;
     rolls.forEach(roll => {
       if (count < countTotal) {
-        roll.setAttribute('drop', true);
+        this.markDie(roll, 'dropped', expression).setAttribute('drop', true);
       } else {
-        roll.setAttribute('drop', false);
+        this.markDie(roll, 'dropped', null).setAttribute('drop', false);
         total += roll.getAttribute('value');
       }
       count++;
@@ -294,7 +479,7 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
       condition = Ast.Factory.create(Ast.NodeType.Equal);
       if (type === 'success') {
         this.expectChildCount(dice, 2, errors);
-        condition.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', dice.getAttribute('sides')));
+        condition.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', this.getHighestFace(dice.getAttribute('sides'))));
       } else {
         condition.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 1));
       }
@@ -306,7 +491,7 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     dice.forEachChild((die) => {
       const dieValue = this.evaluate(die, errors);
       if (this.evaluateComparison(dieValue, condition, errors)) {
-        die.setAttribute('critical', type);
+        this.markDie(die, 'critical', expression).setAttribute('critical', type);
         total += dieValue;
       }
     });
@@ -320,6 +505,7 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     if (!dice) { return 0; }
     let condition: Ast.ExpressionNode;
     const once = expression.getAttribute('once');
+    const { maxRerolls } = this.options;
 
     if (expression.getChildCount() > 1) {
       condition = expression.getChild(1);
@@ -335,11 +521,19 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
 
     let total = 0;
     const sides = dice.getAttribute('sides');
-    dice.forEachChild(die => {
+    dice.forEachChild((die, index) => {
       if (!die.getAttribute('drop')) {
         let dieValue = this.evaluate(die, errors);
+        let attempts = 0;
         while (condition && this.evaluateComparison(dieValue, condition, errors)) {
-          dieValue = this.createDiceRollValue(sides, errors);
+          if (maxRerolls && ++attempts > maxRerolls) {
+            this.exceedBudget(`Too many rerolls. Maximum attempts allowed: ${maxRerolls}.`, expression, errors);
+            break;
+          }
+          if (!this.checkBudget(expression, errors)) { break; }
+          die.setAttribute('rerolls', [...die.getAttribute('rerolls') || [], dieValue]);
+          this.markDie(die, 'rerolled', expression);
+          dieValue = this.createDiceRollValue(sides, errors, 'reroll', index, dice);
           if (once) { break; }
         }
         die.setAttribute('value', dieValue);
@@ -360,6 +554,32 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     return rolls.total;
   }
 
+  // Marks the dice that match without changing the total. Doubled faces default to the highest, the others to 1.
+  evaluatePool(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (!this.expectChildCount(expression, 1, errors)) { return 0; }
+    const dice = this.findDiceOrGroupNode(expression, errors);
+    if (!dice) { return 0; }
+    const type = expression.getAttribute('type');
+    const total = this.evaluate(expression.getChild(0), errors);
+
+    let condition: Ast.ExpressionNode;
+    if (expression.getChildCount() > 1) {
+      condition = expression.getChild(1);
+    } else {
+      const face = type === 'double' ? this.getHighestFace(dice.getAttribute('sides')) : 1;
+      condition = Ast.Factory.create(Ast.NodeType.Equal);
+      condition.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', face));
+    }
+
+    const state = PoolStates[type];
+    dice.forEachChild(die => {
+      if (!die.getAttribute('drop') && this.evaluateComparison(this.evaluate(die, errors), condition, errors)) {
+        this.markDie(die, state, expression).setAttribute(state, true);
+      }
+    });
+    return total;
+  }
+
   evaluateEqual(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
     return this.evaluateSuccess(expression, (l, r) => (l === r), errors);
   }
@@ -380,6 +600,52 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     return this.evaluateSuccess(expression, (l, r) => (l <= r), errors);
   }
 
+  // Unlike the other comparisons, != is never a dice modifier, so it always tests the totals of both sides.
+  evaluateNotEqual(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (!this.expectChildCount(expression, 2, errors)) { return 0; }
+    return this.evaluateCondition(expression, errors) ? 1 : 0;
+  }
+
+  evaluateConditional(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (!this.expectChildCount(expression, 3, errors)) { return 0; }
+    const branch = this.evaluateCondition(expression.getChild(0), errors) ? 1 : 2;
+    return this.evaluate(expression.getChild(branch), errors);
+  }
+
+  evaluateAnd(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (!this.expectChildCount(expression, 2, errors)) { return 0; }
+    return this.evaluateCondition(expression.getChild(0), errors)
+      && this.evaluateCondition(expression.getChild(1), errors) ? 1 : 0;
+  }
+
+  evaluateOr(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (!this.expectChildCount(expression, 2, errors)) { return 0; }
+    return this.evaluateCondition(expression.getChild(0), errors)
+      || this.evaluateCondition(expression.getChild(1), errors) ? 1 : 0;
+  }
+
+  evaluateNot(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
+    if (!this.expectChildCount(expression, 1, errors)) { return 0; }
+    return this.evaluateCondition(expression.getChild(0), errors) ? 0 : 1;
+  }
+
+  // The kept dice, or group elements, of an evaluated dice expression; null when it is not dice.
+  getDiceValues(expression: Ast.ExpressionNode, errors: InterpreterError[]): number[] | null {
+    let dice = expression;
+    while (DiceModifierNodeTypes.indexOf(dice.type) !== -1 && dice.getChildCount() > 0) { dice = dice.getChild(0); }
+    if (dice.type !== Ast.NodeType.Dice && dice.type !== Ast.NodeType.Group) { return null; }
+    const values: number[] = [];
+    const faces: Array<[number, number]> | undefined = dice.getAttribute('faces');
+    if (faces) {
+      faces.forEach(([face, count]) => { for (let x = 0; x < count; x++) { values.push(face); } });
+      return values;
+    }
+    dice.forEachChild(die => {
+      if (!die.getAttribute('drop')) { values.push(this.evaluate(die, errors)); }
+    });
+    return values;
+  }
+
   countSuccesses(expression: Ast.ExpressionNode, errors: InterpreterError[]): number {
     return this.countSuccessOrFailure(expression, die => die.getAttribute('success'), errors);
   }
@@ -391,18 +657,100 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
   private countSuccessOrFailure(expression: Ast.ExpressionNode,
     condition: (die: Ast.ExpressionNode) => boolean, errors: InterpreterError[]): number {
     let total = 0;
-    if (expression.type === Ast.NodeType.Dice || expression.type === Ast.NodeType.Group) {
+    const faces: Array<[number, number]> | undefined = expression.getAttribute('faces');
+    if (faces) {
+      // Aggregated dice have no modifiers, so they all count the same way as the pool itself.
+      if (condition(expression)) { faces.forEach(([, count]) => { total += count; }); }
+    } else if (expression.type === Ast.NodeType.Dice || expression.type === Ast.NodeType.Group) {
+      // Dice in a branch that was never taken were not rolled, so they are neither successes nor failures.
+      if (expression.getAttribute('value') === undefined) { return 0; }
       expression.forEachChild(die => {
         if (!die.getAttribute('drop') && condition(die)) { total++; }
       });
     } else {
-      expression.forEachChild(die => {
+      this.getRolledChildren(expression).forEach(die => {
         total += this.countSuccessOrFailure(die, condition, errors);
       });
     }
     return total;
   }
 
+  // The symbols on the symbolic dice kept in the expression, or undefined if it has none.
+  countSymbols(expression: Ast.ExpressionNode): SymbolResult | undefined {
+    const rolled: SymbolCounts = {};
+    return this.tallySymbols(expression, rolled) ? new SymbolResult(rolled, this.options.symbolRules) : undefined;
+  }
+
+  // Net successes across every pool in the expression, or undefined if it has no success pool modifiers.
+  countPool(expression: Ast.ExpressionNode): SuccessPool | undefined {
+    const tally: PoolTally = { dice: 0, successes: 0, doubled: 0, subtracted: 0, glitches: 0, botches: 0 };
+    if (!this.tallyPool(expression, tally)) { return undefined; }
+    return {
+      net: tally.successes + tally.doubled - tally.subtracted,
+      doubled: tally.doubled,
+      subtracted: tally.subtracted,
+      glitches: tally.glitches,
+      glitch: tally.glitches * 2 > tally.dice,
+      botch: tally.successes === 0 && tally.botches > 0,
+    };
+  }
+
+  private tallyPool(expression: Ast.ExpressionNode, tally: PoolTally): boolean {
+    const faces: Array<[number, number]> | undefined = expression.getAttribute('faces');
+    if (faces) {
+      // Aggregated dice have no modifiers, so they are neither successes nor marked.
+      faces.forEach(([, count]) => { tally.dice += count; });
+      return false;
+    }
+    if (expression.type === Ast.NodeType.Dice || expression.type === Ast.NodeType.Group) {
+      expression.forEachChild(die => {
+        if (die.getAttribute('drop')) { return; }
+        const success = die.getAttribute('success') === true;
+        tally.dice++;
+        if (success) { tally.successes++; }
+        if (success && die.getAttribute('doubled')) { tally.doubled++; }
+        if (die.getAttribute('subtracted')) { tally.subtracted++; }
+        if (die.getAttribute('glitched')) { tally.glitches++; }
+        if (die.getAttribute('subtracted') || die.getAttribute('glitched')) { tally.botches++; }
+      });
+      return false;
+    }
+    let found = expression.type === Ast.NodeType.Pool;
+    this.getRolledChildren(expression).forEach(child => { found = this.tallyPool(child, tally) || found; });
+    return found;
+  }
+
+  // The band the total falls in, using bands written after the expression or else those in the options.
+  findOutcome(expression: Ast.ExpressionNode, total: number): Outcome | undefined {
+    const outcomes: OutcomeBands | undefined = expression.type === Ast.NodeType.Bands ? {
+      bands: expression.getAttribute('bands') || [],
+      target: expression.getAttribute('target'),
+      under: expression.getAttribute('under'),
+    } : this.options.outcomeBands;
+    if (!outcomes || !outcomes.bands.length) { return undefined; }
+
+    let band = outcomes.bands[0];
+    outcomes.bands.forEach(next => {
+      if (next.from !== undefined && total >= next.from) { band = next; }
+    });
+    const { target, under } = outcomes;
+    if (target === undefined) { return { band: band.label }; }
+    return { band: band.label, margin: under ? target - total : total - target };
+  }
+
+  private tallySymbols(expression: Ast.ExpressionNode, rolled: SymbolCounts): boolean {
+    const symbols: string[] | undefined = expression.getAttribute('symbols');
+    if (symbols) {
+      if (!expression.getAttribute('drop')) {
+        symbols.forEach(symbol => { rolled[symbol] = (rolled[symbol] || 0) + 1; });
+      }
+      return true;
+    }
+    let found = false;
+    this.getRolledChildren(expression).forEach(child => { found = this.tallySymbols(child, rolled) || found; });
+    return found;
+  }
+
   private expectChildCount(expression: Ast.ExpressionNode, count: number, errors: InterpreterError[]): boolean {
     const findCount = expression.getChildCount();
     if (findCount < count) {
@@ -415,18 +763,34 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
 
   private evaluateComparison(lhs: number, expression: Ast.ExpressionNode, errors: InterpreterError[]): boolean {
     if (!this.expectChildCount(expression, 1, errors)) { return false; }
+    return this.compareValues(lhs, this.evaluate(expression.getChild(0), errors), expression, errors);
+  }
+
+  private compareValues(lhs: number, rhs: number, expression: Ast.ExpressionNode, errors: InterpreterError[]): boolean {
     switch (expression.type) {
-      case Ast.NodeType.Equal: return lhs === this.evaluate(expression.getChild(0), errors);
-      case Ast.NodeType.Greater: return lhs > this.evaluate(expression.getChild(0), errors);
-      case Ast.NodeType.GreaterOrEqual: return lhs >= this.evaluate(expression.getChild(0), errors);
-      case Ast.NodeType.Less: return lhs < this.evaluate(expression.getChild(0), errors);
-      case Ast.NodeType.LessOrEqual: return lhs <= this.evaluate(expression.getChild(0), errors);
+      case Ast.NodeType.Equal: return lhs === rhs;
+      case Ast.NodeType.Greater: return lhs > rhs;
+      case Ast.NodeType.GreaterOrEqual: return lhs >= rhs;
+      case Ast.NodeType.Less: return lhs < rhs;
+      case Ast.NodeType.LessOrEqual: return lhs <= rhs;
+      case Ast.NodeType.NotEqual: return lhs !== rhs;
       default:
         errors.push(new InterpreterError(`Unrecognized comparison operator '${expression.type}'.`, expression));
         return false;
     }
   }
 
+  private evaluateCondition(expression: Ast.ExpressionNode, errors: InterpreterError[]): boolean {
+    // As a condition, a comparison tests the total of its left side rather than counting successful dice.
+    if (ComparisonNodeTypes.indexOf(expression.type) > -1 && expression.getChildCount() > 1) {
+      const lhs = this.evaluate(expression.getChild(0), errors);
+      const res = this.compareValues(lhs, this.evaluate(expression.getChild(1), errors), expression, errors);
+      expression.setAttribute('value', res ? 1 : 0);
+      return res;
+    }
+    return this.evaluate(expression, errors) !== 0;
+  }
+
   evaluateSuccess(expression: Ast.ExpressionNode, compare: (lhs: number, rhs: number) => boolean, errors: InterpreterError[]): number {
     if (!this.expectChildCount(expression, 2, errors)) { return 0; }
     const rhv = this.evaluate(expression.getChild(1), errors);
@@ -438,7 +802,7 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
       if (!die.getAttribute('drop')) {
         const val = this.evaluate(die, errors);
         const res = compare(this.evaluate(die, errors), rhv);
-        die.setAttribute('success', res);
+        this.markDie(die, 'success', res ? expression : null).setAttribute('success', res);
         if (res) { total += val; }
       }
     });
@@ -447,6 +811,11 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
   }
 
   private findDiceOrGroupNode(expression: Ast.ExpressionNode, errors: InterpreterError[]): Ast.ExpressionNode | null {
+    // Symbolic dice all have the value 0, so there is nothing for a modifier to compare.
+    if (expression.getAttribute('symbolic')) {
+      errors.push(new InterpreterError('Symbolic dice cannot be modified.', expression));
+      return null;
+    }
     if (expression.type === Ast.NodeType.Dice || expression.type === Ast.NodeType.Group) {
       return expression;
     }
@@ -480,41 +849,285 @@ export class DiceInterpreter implements Interpreter<DiceResult> {
     return output;
   }
 
-  private createDiceRoll(sides: Ast.ExpressionNode | number, errors: InterpreterError[]): Ast.ExpressionNode {
-    const sidesValue = sides instanceof Ast.ExpressionNode
-      ? sides.getAttribute('value')
-      : sides;
-    const diceRoll = this.createDiceRollValue(sides, errors);
+  private createDiceRoll(sides: Ast.ExpressionNode | number | number[], errors: InterpreterError[],
+    source: DiceDrawSource = 'roll', die = 0, dice?: Ast.ExpressionNode): Ast.ExpressionNode {
+    const diceRoll = this.createDiceRollValue(sides, errors, source, die, dice);
     return Ast.Factory.create(Ast.NodeType.DiceRoll)
       .setAttribute('value', diceRoll)
       .setAttribute('drop', false);
   }
 
-  private createDiceRollValue(sides: Ast.ExpressionNode | number, errors: InterpreterError[]): number {
+  private createDiceRollValue(sides: Ast.ExpressionNode | number | number[], errors: InterpreterError[],
+    source: DiceDrawSource = 'roll', die = 0, dice?: Ast.ExpressionNode): number {
     let minValue = 1, maxValue = 0;
 
     const sidesValue = sides instanceof Ast.ExpressionNode
       ? sides.getAttribute('value')
       : sides;
 
-    if (sidesValue === 'fate') {
+    if (Array.isArray(sidesValue)) {
+      // A die with custom faces draws the index of the face it lands on.
+      minValue = 0; maxValue = sidesValue.length - 1;
+    } else if (sidesValue === 'fate') {
       minValue = -1; maxValue = 1;
     } else {
-      maxValue = Math.round(sides instanceof Ast.ExpressionNode ? this.evaluate(sides, errors) : sides);
+      maxValue = Math.round(sides instanceof Ast.ExpressionNode ? this.evaluate(sides, errors) : sidesValue);
+    }
+    const draw = this.draw(minValue, maxValue, source, sidesValue, die, dice);
+    if (Array.isArray(sidesValue)) { draw.face = sidesValue[draw.value]; }
+    return Array.isArray(sidesValue) ? sidesValue[draw.value] : draw.value;
+  }
+
+  private draw(minValue: number, maxValue: number, source: DiceDrawSource, sides: number | string | number[],
+    die: number, dice?: Ast.ExpressionNode): DiceDraw {
+    const value = this.random.numberBetween(minValue, maxValue);
+    const draw: DiceDraw = { min: minValue, max: maxValue, value, source, sides, die };
+    const span = dice ? dice.getSpan() : undefined;
+    if (span) { draw.span = span; }
+    this.draws.push(draw);
+    return draw;
+  }
+
+  // Percentile dice show a tens and a units digit, with 00 and 0 reading as 100.
+  // Bonus and penalty dice roll extra tens dice and keep the lowest or highest result.
+  private rollTens(roll: Ast.ExpressionNode, sides: Ast.ExpressionNode, die: number, dice: Ast.ExpressionNode,
+    errors: InterpreterError[]) {
+    const value: number = roll.getAttribute('value');
+    const units = value % 10;
+    const tens = [(value - units) % 100];
+    const bonus: number = sides.getAttribute('bonus') || 0;
+    const penalty: number = sides.getAttribute('penalty') || 0;
+    for (let x = 0; x < bonus + penalty; x++) {
+      if (!this.spendDice(dice, errors)) { break; }
+      tens.push(this.draw(0, 9, 'tens', 10, die, dice).value * 10);
+    }
+    const results = tens.map(ten => ten + units || 100);
+    if (bonus) { roll.setAttribute('value', Math.min(...results)); }
+    if (penalty) { roll.setAttribute('value', Math.max(...results)); }
+    roll.setAttribute('tens', tens).setAttribute('units', units);
+  }
+
+  // The face a die explodes or scores a critical success on by default.
+  private getHighestFace(sides: number | string | number[]): number | string {
+    return Array.isArray(sides) ? Math.max(...sides) : sides;
+  }
+
+  private checkBudget(expression: Ast.ExpressionNode, errors: InterpreterError[]): boolean {
+    if (this.budget.exceeded) { return false; }
+    const { maxEvaluationTime } = this.options;
+    if (maxEvaluationTime && Date.now() - this.budget.started > maxEvaluationTime) {
+      return this.exceedBudget(`Evaluation took too long. Maximum time allowed: ${maxEvaluationTime}ms.`, expression, errors);
+    }
+    return true;
+  }
+
+  private spendDice(expression: Ast.ExpressionNode, errors: InterpreterError[]): boolean {
+    if (!this.checkBudget(expression, errors)) { return false; }
+    const { maxDice } = this.options;
+    if (maxDice && ++this.budget.dice > maxDice) {
+      return this.exceedBudget(`Too many dice rolled. Maximum allowed: ${maxDice}.`, expression, errors);
+    }
+    return true;
+  }
+
+  private spendNodes(count: number, expression: Ast.ExpressionNode, errors: InterpreterError[]): boolean {
+    if (!this.checkBudget(expression, errors)) { return false; }
+    const { maxNodes } = this.options;
+    this.budget.nodes += count;
+    if (maxNodes && this.budget.nodes > maxNodes) {
+      return this.exceedBudget(`Expression is too large. Maximum nodes allowed: ${maxNodes}.`, expression, errors);
+    }
+    return true;
+  }
+
+  // Once any budget runs out no more dice are rolled, so the rest of the expression evaluates with what it has.
+  private exceedBudget(message: string, expression: Ast.ExpressionNode, errors: InterpreterError[]): false {
+    if (!this.budget.exceeded) {
+      errors.push(new InterpreterError(message, expression));
+      this.budget.exceeded = true;
+    }
+    return false;
+  }
+
+  private countNodes(expression: Ast.ExpressionNode): number {
+    let count = 1;
+    expression.forEachChild(child => { count += this.countNodes(child); });
+    return count;
+  }
+
+  private checkArity(fn: RegisteredFunction, expression: Ast.ExpressionNode, errors: InterpreterError[]): boolean {
+    if (fn.arity === undefined) { return true; }
+    const { min, max } = typeof fn.arity === 'number' ? { min: fn.arity, max: fn.arity } : fn.arity;
+    const count = expression.getChildCount();
+    if (count >= min && (max === undefined || count <= max)) { return true; }
+    const expected = max === undefined ? `at least ${min}` : min === max ? `${min}` : `${min} to ${max}`;
+    errors.push(new InterpreterError(`Invalid number of arguments for ${fn.name}: ${count}. Expected: ${expected}.`, expression));
+    return false;
+  }
+
+  private markDie(die: Ast.ExpressionNode, state: keyof DieModifiers, modifier: Ast.ExpressionNode | null): Ast.ExpressionNode {
+    const modifiers: DieModifiers = { ...die.getAttribute('modifiers') };
+    if (modifier) {
+      modifiers[state] = { type: modifier.type, span: modifier.getSpan() };
+    } else {
+      delete modifiers[state];
+    }
+    return die.setAttribute('modifiers', modifiers);
+  }
+
+  createBreakdown(expression: Ast.ExpressionNode, breakdown: DieBreakdown[] = [], dropped?: DieModifier): DieBreakdown[] {
+    let modifiers: DieModifiers = expression.getAttribute('modifiers') || {};
+    // Dropping an element of a group drops every die inside it.
+    if (!dropped && expression.getAttribute('drop') === true) { dropped = modifiers.dropped; }
+    const faces: Array<[number, number]> | undefined = expression.getAttribute('faces');
+    if (faces) { return this.createFaceBreakdown(expression, faces, breakdown, dropped); }
+    if (expression.type !== Ast.NodeType.DiceRoll) {
+      this.getRolledChildren(expression).forEach(child => { this.createBreakdown(child, breakdown, dropped); });
+      return breakdown;
+    }
+    if (dropped) { modifiers = { ...modifiers, dropped }; }
+    const dice = expression.getParent();
+    const value = expression.getAttribute('value');
+    const rerolls: number[] = expression.getAttribute('rerolls') || [];
+    const critical = expression.getAttribute('critical');
+    const entry: DieBreakdown = {
+      sides: dice ? dice.getAttribute('sides') : undefined,
+      value,
+      originalValue: rerolls.length ? rerolls[0] : value,
+      rerolls,
+      dropped: !!dropped,
+      exploded: !!modifiers.exploded,
+      explosion: !!modifiers.explosion,
+      rerolled: !!modifiers.rerolled,
+      success: expression.getAttribute('success') === true,
+      criticalSuccess: critical === 'success',
+      criticalFailure: critical === 'failure',
+      modifiers,
+    };
+    const rolls = expression.getAttribute('rolls');
+    if (rolls) { entry.rolls = rolls; }
+    const symbols = expression.getAttribute('symbols');
+    if (symbols) { entry.symbols = symbols; }
+    if (expression.getAttribute('doubled')) { entry.doubled = true; }
+    if (expression.getAttribute('subtracted')) { entry.subtracted = true; }
+    if (expression.getAttribute('glitched')) { entry.glitched = true; }
+    const tens = expression.getAttribute('tens');
+    if (tens) {
+      entry.tens = tens;
+      entry.units = expression.getAttribute('units');
+    }
+    const span = dice ? dice.getSpan() : undefined;
+    if (span) { entry.span = span; }
+    breakdown.push(entry);
+    return breakdown;
+  }
+
+  // One entry per face of an aggregated pool, with how many dice came up on it.
+  private createFaceBreakdown(dice: Ast.ExpressionNode, faces: Array<[number, number]>, breakdown: DieBreakdown[],
+    dropped?: DieModifier): DieBreakdown[] {
+    const span = dice.getSpan();
+    faces.forEach(([value, count]) => {
+      const entry: DieBreakdown = {
+        sides: dice.getAttribute('sides'),
+        value,
+        originalValue: value,
+        rerolls: [],
+        dropped: !!dropped,
+        exploded: false,
+        explosion: false,
+        rerolled: false,
+        success: false,
+        criticalSuccess: false,
+        criticalFailure: false,
+        modifiers: dropped ? { dropped } : {},
+        count,
+      };
+      if (span) { entry.span = span; }
+      breakdown.push(entry);
+    });
+    return breakdown;
+  }
+
+  // Pools above the aggregate size are summed without a node per die, unless a modifier needs to see each die.
+  private shouldAggregate(dice: Ast.ExpressionNode, num: number): boolean {
+    const { aggregateDiceAbove } = this.options;
+    if (aggregateDiceAbove === undefined || num <= aggregateDiceAbove) { return false; }
+    const parent = dice.getParent();
+    return !parent || DiceModifierNodeTypes.indexOf(parent.type) === -1 || parent.getChild(0) !== dice;
+  }
+
+  private rollAggregated(dice: Ast.ExpressionNode, sides: Ast.ExpressionNode | number[], num: number, errors: InterpreterError[]): number {
+    const faces = Array.isArray(sides) ? sides : undefined;
+    const fate = !faces && (sides as Ast.ExpressionNode).getAttribute('value') === 'fate';
+    const minValue = faces ? 0 : fate ? -1 : 1;
+    const maxValue = faces ? faces.length - 1 : fate ? 1 : Math.round(this.evaluate(sides as Ast.ExpressionNode, errors));
+    const counts = new Map<number, number>();
+    let total = 0;
+    for (let x = 0; x < num; x++) {
+      if (!this.spendDice(dice, errors)) { break; }
+      const drawn = this.draw(minValue, maxValue, 'roll', dice.getAttribute('sides'), x, dice).value;
+      const value = faces ? faces[drawn] : drawn;
+      counts.set(value, (counts.get(value) || 0) + 1);
+      total += value;
     }
-    return this.random.numberBetween(minValue, maxValue);
+    dice.setAttribute('faces', Array.from(counts.entries()).sort((a, b) => a[0] - b[0]));
+    return total;
+  }
+
+  // Symbolic dice add nothing to the total, the symbols on the faces they land on are tallied instead.
+  private rollSymbolic(dice: Ast.ExpressionNode, name: string, faces: string[][], num: number, errors: InterpreterError[]): number {
+    dice.setAttribute('sides', name).setAttribute('symbolic', true);
+    dice.clearChildren();
+    for (let x = 0; x < num; x++) {
+      if (!this.spendDice(dice, errors)) { break; }
+      const { value } = this.draw(0, faces.length - 1, 'roll', name, x, dice);
+      dice.addChild(Ast.Factory.create(Ast.NodeType.DiceRoll)
+        .setAttribute('value', 0)
+        .setAttribute('drop', false)
+        .setAttribute('symbols', faces[value]));
+    }
+    return 0;
+  }
+
+  // The children that dice may have been rolled under: a macro's definition is never rolled, only its expansions.
+  private getRolledChildren(expression: Ast.ExpressionNode): Ast.ExpressionNode[] {
+    const children: Ast.ExpressionNode[] = [];
+    expression.forEachChild((child, index) => {
+      if (expression.type !== Ast.NodeType.Define || index !== 0) { children.push(child); }
+    });
+    const expansion = expression.getAttribute('expansion');
+    if (expansion) { children.push(expansion); }
+    return children;
+  }
+
+  private findBinding(expression: Ast.ExpressionNode, name: string): Ast.ExpressionNode | null {
+    // A let binding is only visible from its body, so track which child each step came from.
+    let child = expression;
+    let node = expression.getParent();
+    while (node) {
+      if (node.type === Ast.NodeType.Let && node.getAttribute('name') === name && node.getChild(1) === child) {
+        return node;
+      }
+      child = node;
+      node = node.getParent();
+    }
+    return null;
   }
 
   private wouldRollAgainForever(dice: Ast.ExpressionNode, expression: Ast.ExpressionNode, errors: InterpreterError[]): boolean {
     const sides = dice.getAttribute('sides');
     const value = expression.getChild(0).getAttribute('value');
     let wouldRunForever = false;
-    switch (expression.type) {
-      case Ast.NodeType.Equal: wouldRunForever = sides === 1 && value === 1; break;
-      case Ast.NodeType.Greater: wouldRunForever = value < 1; break;
-      case Ast.NodeType.GreaterOrEqual: wouldRunForever = value <= 1; break;
-      case Ast.NodeType.Less: wouldRunForever = value > sides; break;
-      case Ast.NodeType.LessOrEqual: wouldRunForever = value >= sides;
+    if (Array.isArray(sides)) {
+      wouldRunForever = sides.every(face => this.evaluateComparison(face, expression, errors));
+    } else {
+      switch (expression.type) {
+        case Ast.NodeType.Equal: wouldRunForever = sides === 1 && value === 1; break;
+        case Ast.NodeType.Greater: wouldRunForever = value < 1; break;
+        case Ast.NodeType.GreaterOrEqual: wouldRunForever = value <= 1; break;
+        case Ast.NodeType.Less: wouldRunForever = value > sides; break;
+        case Ast.NodeType.LessOrEqual: wouldRunForever = value >= sides;
+      }
     }
 
     if (wouldRunForever) {
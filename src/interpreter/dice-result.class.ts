@@ -1,11 +1,24 @@
 import { ExpressionNode } from '../ast/index.ts';
 import { InterpreterError } from '../interpreter/error-message.class.ts';
+import { ParserError } from '../parser/error-message.class.ts';
+import { SymbolResult } from '../symbols/index.ts';
+import { DiceDraw } from './dice-draw.interface.ts';
+import { DieBreakdown } from './die-breakdown.interface.ts';
+import { Outcome } from './outcome-bands.interface.ts';
 import { Result } from './result.class.ts';
+import { SuccessPool } from './success-pool.interface.ts';
 
 export class DiceResult extends Result {
   readonly successes: number;
   readonly failures: number;
-  readonly errors: InterpreterError[];
+  readonly errors: Array<InterpreterError | ParserError>;
+  readonly draws: DiceDraw[];
+  readonly breakdown: DieBreakdown[];
+  readonly symbols?: SymbolResult;
+  // The outcome band the total falls in, and how far it beat or missed the target.
+  readonly band?: string;
+  readonly margin?: number;
+  readonly pool?: SuccessPool;
 
   constructor(
     expression: ExpressionNode,
@@ -13,11 +26,22 @@ export class DiceResult extends Result {
     total: number,
     successes: number,
     failures: number,
-    errors: InterpreterError[]
+    errors: Array<InterpreterError | ParserError>,
+    draws: DiceDraw[] = [],
+    breakdown: DieBreakdown[] = [],
+    symbols?: SymbolResult,
+    outcome?: Outcome,
+    pool?: SuccessPool
   ) {
     super(expression, renderedExpression, total);
     this.successes = successes;
     this.failures = failures;
     this.errors = errors;
+    this.draws = draws;
+    this.breakdown = breakdown;
+    this.symbols = symbols;
+    this.band = outcome && outcome.band;
+    this.margin = outcome && outcome.margin;
+    this.pool = pool;
   }
 }
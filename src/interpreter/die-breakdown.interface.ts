@@ -0,0 +1,44 @@
+import { NodeType, SourceSpan } from '../ast/index.ts';
+
+export interface DieModifier {
+  type: NodeType;
+  span?: SourceSpan;
+}
+
+export interface DieModifiers {
+  dropped?: DieModifier;
+  exploded?: DieModifier;
+  explosion?: DieModifier;
+  rerolled?: DieModifier;
+  success?: DieModifier;
+  critical?: DieModifier;
+  doubled?: DieModifier;
+  subtracted?: DieModifier;
+  glitched?: DieModifier;
+}
+
+export interface DieBreakdown {
+  sides: number | string | number[];
+  value: number;
+  originalValue: number;
+  rerolls: number[];
+  dropped: boolean;
+  exploded: boolean;
+  explosion: boolean;
+  rerolled: boolean;
+  success: boolean;
+  criticalSuccess: boolean;
+  criticalFailure: boolean;
+  modifiers: DieModifiers;
+  count?: number;
+  // The rolls added together into a compounded die, such as [6, 6, 2] for a 14.
+  rolls?: number[];
+  symbols?: string[];
+  // Set on dice marked by success pool modifiers.
+  doubled?: boolean;
+  subtracted?: boolean;
+  glitched?: boolean;
+  tens?: number[];
+  units?: number;
+  span?: SourceSpan;
+}
@@ -1,5 +1,9 @@
-import { ExpressionNode } from '../ast/index.ts';
+import { ExpressionNode, SourceSpan } from '../ast/index.ts';
 
 export class InterpreterError {
-  constructor(public message: string, public expression: ExpressionNode, public stack: string = (new Error().stack ?? '')) { }
+  readonly span?: SourceSpan;
+
+  constructor(public message: string, public expression: ExpressionNode, public stack: string = (new Error().stack ?? '')) {
+    this.span = expression ? expression.getSpan() : undefined;
+  }
 }
@@ -0,0 +1,13 @@
+import { ExpressionNode } from '../ast/index.ts';
+
+export interface FunctionArity {
+  min: number;
+  max?: number;
+}
+
+export interface FunctionMetadata {
+  arity?: number | FunctionArity;
+  description?: string;
+  // The def node of a macro, which the analyzer expands instead of calling the definition.
+  macro?: ExpressionNode;
+}
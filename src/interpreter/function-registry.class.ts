@@ -0,0 +1,66 @@
+import { FunctionDefinition } from './function-definition.type.ts';
+import { FunctionDefinitionList } from './function-definition-list.class.ts';
+import { FunctionMetadata } from './function-metadata.interface.ts';
+
+export interface RegisteredFunction extends FunctionMetadata {
+  name: string;
+  definition: FunctionDefinition;
+}
+
+/**
+ * A set of functions layered over an optional parent. Lookups fall through to
+ * the parent, so a scope can add, override or hide functions without changing
+ * the registries beneath it.
+ */
+export class FunctionRegistry {
+  readonly parent?: FunctionRegistry;
+  // A null entry hides a function of the same name in the parent.
+  private readonly functions = new Map<string, RegisteredFunction | null>();
+
+  constructor(parent?: FunctionRegistry, functions?: FunctionDefinitionList) {
+    this.parent = parent;
+    if (functions) { this.registerAll(functions); }
+  }
+
+  register(name: string, definition: FunctionDefinition, metadata?: FunctionMetadata): this {
+    this.functions.set(name, { ...metadata, name, definition });
+    return this;
+  }
+
+  registerAll(functions: FunctionDefinitionList): this {
+    Object.keys(functions).forEach(name => this.register(name, functions[name]));
+    return this;
+  }
+
+  unregister(name: string): this {
+    if (this.parent && this.parent.has(name)) {
+      this.functions.set(name, null);
+    } else {
+      this.functions.delete(name);
+    }
+    return this;
+  }
+
+  get(name: string): RegisteredFunction | undefined {
+    if (this.functions.has(name)) { return this.functions.get(name) || undefined; }
+    return this.parent ? this.parent.get(name) : undefined;
+  }
+
+  has(name: string): boolean {
+    return !!this.get(name);
+  }
+
+  names(): string[] {
+    const names = this.parent ? this.parent.names() : [];
+    this.functions.forEach((fn, name) => {
+      const index = names.indexOf(name);
+      if (fn && index === -1) { names.push(name); }
+      if (!fn && index !== -1) { names.splice(index, 1); }
+    });
+    return names.sort();
+  }
+
+  createScope(functions?: FunctionDefinitionList): FunctionRegistry {
+    return new FunctionRegistry(this, functions);
+  }
+}
@@ -1,7 +1,18 @@
+export * from "./custom-dice-list.interface.ts";
+export * from "./dice-draw.interface.ts";
 export * from "./dice-result.class.ts";
 export * from "./dice-interpreter.class.ts";
+export * from "./die-breakdown.interface.ts";
 export * from "./error-message.class.ts";
+export * from "./default-function-definitions.ts";
+export * from "./function-definition.type.ts";
 export * from "./function-definition-list.class.ts";
+export * from "./function-metadata.interface.ts";
+export * from "./function-registry.class.ts";
+export * from "./macro-definitions.ts";
+export * from "./outcome-bands.interface.ts";
+export * from "./success-pool.interface.ts";
+export * from "./variable-context.interface.ts";
 export * from "./function-definition-list.class.ts";
 export * from "./dice-interpreter.class.ts";
 export * from "./dice-result.class.ts";
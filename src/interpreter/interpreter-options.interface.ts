@@ -1,4 +1,19 @@
+import { SymbolicDiceList, SymbolRules } from '../symbols/index.ts';
+import { CustomDiceList } from './custom-dice-list.interface.ts';
+import { OutcomeBands } from './outcome-bands.interface.ts';
+
 export interface InterpreterOptions {
   maxRollTimes?: number;
   maxDiceSides?: number;
+  maxDice?: number;
+  maxExplodeDepth?: number;
+  maxRerolls?: number;
+  maxNodes?: number;
+  maxEvaluationTime?: number;
+  maxMacroDepth?: number;
+  aggregateDiceAbove?: number;
+  customDice?: CustomDiceList;
+  symbolicDice?: SymbolicDiceList;
+  symbolRules?: SymbolRules;
+  outcomeBands?: OutcomeBands;
 }
@@ -1,5 +1,7 @@
 import * as Ast from '../ast/index.ts';
+import { FunctionDefinitionList } from './function-definition-list.class.ts';
+import { VariableContext } from './variable-context.interface.ts';
 
 export interface Interpreter<TResult> {
-  interpret(expression: Ast.ExpressionNode): TResult;
+  interpret(expression: Ast.ExpressionNode, variables?: VariableContext, functions?: FunctionDefinitionList): TResult;
 }
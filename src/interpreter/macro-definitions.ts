@@ -0,0 +1,10 @@
+import { ExpressionNode } from '../ast/index.ts';
+import { FunctionRegistry } from './function-registry.class.ts';
+
+// Registers a parsed def node as a function that expands its body for each call.
+export function registerMacro(registry: FunctionRegistry, define: ExpressionNode): FunctionRegistry {
+  const parameters: string[] = define.getAttribute('parameters') || [];
+  return registry.register(define.getAttribute('name'), (interpreter, functionNode, errors) => {
+    return interpreter.evaluateMacro(define, functionNode, errors);
+  }, { arity: parameters.length, macro: define });
+}
@@ -0,0 +1,18 @@
+export interface OutcomeBand {
+  label: string;
+  // The lowest total in the band. The first band also takes every total below the next one.
+  from?: number;
+}
+
+export interface OutcomeBands {
+  // Ordered from the lowest totals to the highest.
+  bands: OutcomeBand[];
+  // The total the margin is measured from, met or beaten by rolling over it, or under it when under is set.
+  target?: number;
+  under?: boolean;
+}
+
+export interface Outcome {
+  band: string;
+  margin?: number;
+}
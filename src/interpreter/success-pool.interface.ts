@@ -0,0 +1,11 @@
+export interface SuccessPool {
+  // Successes after doubled faces are added and subtracting faces are taken away.
+  net: number;
+  doubled: number;
+  subtracted: number;
+  glitches: number;
+  // More than half the dice show a glitch face.
+  glitch: boolean;
+  // No successes, and at least one die shows a subtracting or glitch face.
+  botch: boolean;
+}
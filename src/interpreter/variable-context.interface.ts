@@ -0,0 +1,3 @@
+export interface VariableContext {
+  [name: string]: number;
+}
@@ -4,6 +4,12 @@ import { StringCharacterStream } from './string-character-stream.class.ts';
 import { Token } from './token.class.ts';
 import { TokenType } from './token-type.enum.ts';
 
+const KeywordMap: { [keyword: string]: TokenType } = {
+  and: TokenType.And,
+  or: TokenType.Or,
+  not: TokenType.Not,
+};
+
 export class DiceLexer implements Lexer {
   protected stream: CharacterStream;
   private currentToken!: Token;
@@ -50,7 +56,7 @@ export class DiceLexer implements Lexer {
     while (this.stream.peekNextCharacter() && this.idCharRegex.test(this.stream.peekNextCharacter() ?? '')) {
       buffer += this.stream.getNextCharacter();
     }
-    return this.createToken(TokenType.Identifier, buffer);
+    return this.createToken(KeywordMap[buffer] || TokenType.Identifier, buffer);
   }
 
   protected parseNumber(): Token {
@@ -69,17 +75,19 @@ export class DiceLexer implements Lexer {
   }
 
   protected parseEllipsis(): Token {
+    let buffer = '.';
     for (let x = 0; x < 2; x++) {
       if (this.stream.peekNextCharacter() !== '.') {
-        throw new Error('Missing period in ellipsis.');
+        return this.createToken(TokenType.Error, buffer);
       }
-      this.stream.getNextCharacter();
+      buffer += this.stream.getNextCharacter();
     }
-    return this.createToken(TokenType.Ellipsis, '...');
+    return this.createToken(TokenType.Ellipsis, buffer);
   }
 
   private constructNextToken() {
     let curChar: string;
+    let spaced = false;
     while (curChar = this.stream.getNextCharacter()?? '') {
       switch (true) {
         case this.idCharRegex.test(curChar): return this.parseIdentifier();
@@ -94,7 +102,17 @@ export class DiceLexer implements Lexer {
         case curChar === '/': return this.createToken(TokenType.Slash, curChar);
         case curChar === '-': return this.createToken(TokenType.Minus, curChar);
         case curChar === '%': return this.createToken(TokenType.Percent, curChar);
-        case curChar === '!': return this.createToken(TokenType.Exclamation, curChar);
+        case curChar === '!':
+          // Straight after dice != is the exploding modifier, so it is only a comparison when set apart.
+          if (spaced && this.stream.peekNextCharacter() === '=') {
+            this.stream.getNextCharacter();
+            return this.createToken(TokenType.NotEqual, curChar + this.stream.getCurrentCharacter());
+          }
+          return this.createToken(TokenType.Exclamation, curChar);
+        case curChar === '@': return this.createToken(TokenType.At, curChar);
+        case curChar === ';': return this.createToken(TokenType.Semicolon, curChar);
+        case curChar === '?': return this.createToken(TokenType.Question, curChar);
+        case curChar === ':': return this.createToken(TokenType.Colon, curChar);
         case curChar === '.': return this.parseEllipsis();
         case curChar === '*':
           if (this.stream.peekNextCharacter() === '*') {
@@ -117,10 +135,11 @@ export class DiceLexer implements Lexer {
           } else {
             return this.createToken(TokenType.Less, curChar);
           }
-        case /\W/.test(curChar):
+        case /\s/.test(curChar):
           // Ignore whitespace.
+          spaced = true;
           break;
-        default: throw new Error(`Unknown token: '${curChar}'.`);
+        default: return this.createToken(TokenType.Error, curChar);
       }
     }
     // Terminator at end of stream.
@@ -4,6 +4,7 @@ export enum TokenType {
   GreaterOrEqual = <any> ">=",
   Less = <any> "<",
   LessOrEqual = <any> "<=",
+  NotEqual = <any> "!=",
   BraceClose = <any> "}",
   BraceOpen = <any> "{",
   Comma = <any> ",",
@@ -19,5 +20,13 @@ export enum TokenType {
   ParenthesisClose = <any> ")",
   ParenthesisOpen = <any> "(",
   Terminator = <any> "terminator",
+  Error = <any> "error",
   Exclamation = <any> "!",
+  At = <any> "@",
+  Semicolon = <any> ";",
+  Question = <any> "?",
+  Colon = <any> ":",
+  And = <any> "and",
+  Or = <any> "or",
+  Not = <any> "not",
 }
@@ -1,6 +1,11 @@
+export * from './analyzer/index.ts';
 export * from './ast/index.ts';
+export * from './compiler/index.ts';
+export * from './formatter/index.ts';
 export * from './random/index.ts';
 export * from './generator/index.ts';
 export * from './interpreter/index.ts';
 export * from './parser/index.ts';
+export * from './simulator/index.ts';
+export * from './symbols/index.ts';
 export * from './dice.class.ts';
@@ -1,3 +1,4 @@
+import * as Ast from '../ast/index.ts';
 import { DiceLexer, Lexer, Token, TokenType } from '../lexer/index.ts';
 import { ParserError } from './error-message.class.ts';
 import { ParseResult } from './parse-result.class.ts';
@@ -5,6 +6,7 @@ import { Parser } from './parser.interface.ts';
 
 export abstract class BasicParser implements Parser {
   protected readonly lexer: Lexer;
+  private lastTokenEnd = 0;
 
   constructor(input: Lexer | string) {
     if (this.isLexer(input)) {
@@ -22,9 +24,15 @@ export abstract class BasicParser implements Parser {
 
   abstract parse(): ParseResult;
 
+  protected consume(): Token {
+    const token = this.lexer.getNextToken();
+    this.lastTokenEnd = token.position + token.value.length;
+    return token;
+  }
+
   protected expectAndConsume(result: ParseResult, expected: TokenType, actual?: Token): Token {
     this.expect(result, expected, actual);
-    return this.lexer.getNextToken();
+    return this.consume();
   }
 
   protected expect(result: ParseResult, expected: TokenType, actual?: Token): Token {
@@ -35,9 +43,22 @@ export abstract class BasicParser implements Parser {
     return actual;
   }
 
+  protected spanFrom<T extends Ast.ExpressionNode | undefined>(node: T, start: number): T {
+    if (node) { node.span = new Ast.SourceSpan(start, Math.max(start, this.lastTokenEnd)); }
+    return node;
+  }
+
+  protected startOf(node: Ast.ExpressionNode | undefined, fallback: number): number {
+    return node && node.span ? node.span.start : fallback;
+  }
+
   protected errorToken(result: ParseResult, expected: TokenType, actual: Token) {
     let message = `Error at position ${actual.position}.`;
-    message += ` Expected token of type ${expected}, found token of type ${actual.type} of value "${actual.value}".`;
+    if (actual.type === TokenType.Error) {
+      message += ` Unrecognized input "${actual.value}".`;
+    } else {
+      message += ` Expected token of type ${expected}, found token of type ${actual.type} of value "${actual.value}".`;
+    }
     this.errorMessage(result, message, actual);
   }
 
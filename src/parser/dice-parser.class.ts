@@ -10,6 +10,13 @@ BooleanOperatorMap[TokenType.Less] = Ast.NodeType.Less;
 BooleanOperatorMap[TokenType.GreaterOrEqual] = Ast.NodeType.GreaterOrEqual;
 BooleanOperatorMap[TokenType.LessOrEqual] = Ast.NodeType.LessOrEqual;
 
+// Tokens that can start the rest of an expression, used to resume parsing after an error.
+const SynchronizingTokens = [
+  TokenType.Plus, TokenType.Minus, TokenType.Asterisk, TokenType.DoubleAsterisk, TokenType.Slash, TokenType.Percent,
+  TokenType.Equals, TokenType.Greater, TokenType.GreaterOrEqual, TokenType.Less, TokenType.LessOrEqual,
+  TokenType.And, TokenType.Or, TokenType.Question, TokenType.Colon, TokenType.Semicolon,
+];
+
 const AddOperatorMap: { [token: string]: Ast.NodeType } = {};
 AddOperatorMap[TokenType.Plus] = Ast.NodeType.Add;
 AddOperatorMap[TokenType.Minus] = Ast.NodeType.Subtract;
@@ -25,27 +32,201 @@ export class DiceParser extends BasicParser {
 
   parse(): ParseResult {
     const result = new ParseResult();
-    result.root = this.parseExpression(result);
+    const start = this.lexer.peekNextToken().position;
+    // Input without any expression, such as '' or ')', still gets a root: the 0 that a roll with errors totals.
+    result.root = this.parseLet(result) || this.spanFrom(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 0), start);
+    const next = this.lexer.peekNextToken();
+    if (this.isBands(next)) {
+      result.root = this.parseBands(result, result.root);
+      const end = this.lexer.peekNextToken();
+      if (end.type !== TokenType.Terminator) {
+        this.errorMessage(result, 'Outcome bands must end the expression.', end);
+      }
+    } else if (this.isBandsTarget(next)) {
+      this.errorMessage(result, `Missing outcome bands before ${next.value}.`, next);
+    }
+    while (this.lexer.peekNextToken().type !== TokenType.Terminator) {
+      this.recover(result);
+    }
     return result;
   }
 
+  recover(result: ParseResult) {
+    const token = this.consume();
+    if (!result.errors.some(error => error.token.position === token.position)) {
+      this.errorToken(result, TokenType.Terminator, token);
+    }
+    let next = this.lexer.peekNextToken();
+    while (next.type !== TokenType.Terminator && SynchronizingTokens.indexOf(next.type) === -1) {
+      if (next.type === TokenType.Error) { this.errorToken(result, TokenType.Terminator, next); }
+      this.consume();
+      next = this.lexer.peekNextToken();
+    }
+    if (next.type !== TokenType.Terminator) {
+      // Parse the rest of the input only to find any further errors.
+      this.consume();
+      this.parseLet(result);
+    }
+  }
+
+  parseLet(result: ParseResult): Ast.ExpressionNode {
+    const token = this.lexer.peekNextToken();
+    if (token.type === TokenType.Identifier && token.value === 'def') {
+      return this.parseDefine(result);
+    }
+    if (token.type !== TokenType.Identifier || token.value !== 'let') {
+      return this.parseConditional(result);
+    }
+    this.consume(); // Consume the let keyword.
+    const name = this.expectAndConsume(result, TokenType.Identifier);
+    this.expectAndConsume(result, TokenType.Equals);
+
+    const root = Ast.Factory.create(Ast.NodeType.Let)
+      .setAttribute('name', name.value);
+    root.addChild(this.parseConditional(result));
+    this.expectAndConsume(result, TokenType.Semicolon);
+    root.addChild(this.parseLet(result));
+    return this.spanFrom(root, token.position);
+  }
+
+  parseDefine(result: ParseResult): Ast.ExpressionNode {
+    const start = this.consume().position; // Consume the def keyword.
+    const name = this.expectAndConsume(result, TokenType.Identifier);
+    this.expectAndConsume(result, TokenType.ParenthesisOpen);
+
+    const parameters: string[] = [];
+    if (this.lexer.peekNextToken().type !== TokenType.ParenthesisClose) {
+      parameters.push(this.expectAndConsume(result, TokenType.Identifier).value);
+      while (this.lexer.peekNextToken().type === TokenType.Comma) {
+        this.consume(); // Consume the comma.
+        parameters.push(this.expectAndConsume(result, TokenType.Identifier).value);
+      }
+    }
+    this.expectAndConsume(result, TokenType.ParenthesisClose);
+    this.expectAndConsume(result, TokenType.Equals);
+
+    const root = Ast.Factory.create(Ast.NodeType.Define)
+      .setAttribute('name', name.value)
+      .setAttribute('parameters', parameters);
+    root.addChild(this.parseConditional(result));
+    this.expectAndConsume(result, TokenType.Semicolon);
+    // A list of definitions on its own, as in a macro library, has nothing after the last one.
+    if (this.lexer.peekNextToken().type !== TokenType.Terminator) {
+      root.addChild(this.parseLet(result));
+    }
+    return this.spanFrom(root, start);
+  }
+
+  // Outcome bands after the whole expression, such as bands miss, 7 partial, 10 hit over 7.
+  parseBands(result: ParseResult, lhs?: Ast.ExpressionNode): Ast.ExpressionNode {
+    const root = Ast.Factory.create(Ast.NodeType.Bands);
+    if (lhs) { root.addChild(lhs); }
+    const start = this.startOf(lhs, this.consume().position); // Consume the bands keyword.
+
+    const bands: Array<{ label: string, from?: number }> = [];
+    let previous: number | undefined;
+    do {
+      if (bands.length) { this.consume(); } // Consume the comma.
+      const token = this.lexer.peekNextToken();
+      let from: number | undefined;
+      if (token.type === TokenType.Number || token.type === TokenType.Minus) {
+        from = this.parseThreshold(result);
+        if (previous !== undefined && from <= previous) {
+          this.errorMessage(result, 'Outcome bands must be in ascending order.', token);
+        }
+        previous = from;
+      } else if (bands.length) {
+        this.errorMessage(result, 'Only the first outcome band can leave out its lowest total.', token);
+      }
+      const label = this.expectAndConsume(result, TokenType.Identifier).value;
+      bands.push(from === undefined ? { label } : { label, from });
+    } while (this.lexer.peekNextToken().type === TokenType.Comma);
+    root.setAttribute('bands', bands);
+
+    const direction = this.lexer.peekNextToken();
+    if (this.isBandsTarget(direction)) {
+      this.consume();
+      root.setAttribute('target', this.parseThreshold(result));
+      root.setAttribute('under', direction.value === 'under');
+    }
+    return this.spanFrom(root, start);
+  }
+
+  parseConditional(result: ParseResult): Ast.ExpressionNode {
+    const start = this.lexer.peekNextToken().position;
+    const condition = this.parseOr(result);
+    if (this.lexer.peekNextToken().type !== TokenType.Question) { return condition; }
+    this.consume(); // Consume the question mark.
+
+    const root = Ast.Factory.create(Ast.NodeType.Conditional);
+    root.addChild(condition);
+    root.addChild(this.parseConditional(result));
+    this.expectAndConsume(result, TokenType.Colon);
+    root.addChild(this.parseConditional(result));
+    return this.spanFrom(root, start);
+  }
+
+  parseOr(result: ParseResult): Ast.ExpressionNode {
+    const start = this.lexer.peekNextToken().position;
+    let root = this.parseAnd(result);
+    while (this.lexer.peekNextToken().type === TokenType.Or) {
+      this.consume(); // Consume the operator.
+      const newRoot = Ast.Factory.create(Ast.NodeType.Or);
+      newRoot.addChild(root);
+      newRoot.addChild(this.parseAnd(result));
+      root = this.spanFrom(newRoot, start);
+    }
+    return root;
+  }
+
+  parseAnd(result: ParseResult): Ast.ExpressionNode {
+    const start = this.lexer.peekNextToken().position;
+    let root = this.parseNot(result);
+    while (this.lexer.peekNextToken().type === TokenType.And) {
+      this.consume(); // Consume the operator.
+      const newRoot = Ast.Factory.create(Ast.NodeType.And);
+      newRoot.addChild(root);
+      newRoot.addChild(this.parseNot(result));
+      root = this.spanFrom(newRoot, start);
+    }
+    return root;
+  }
+
+  parseNot(result: ParseResult): Ast.ExpressionNode {
+    const token = this.lexer.peekNextToken();
+    if (token.type !== TokenType.Not) { return this.parseExpression(result); }
+    this.consume(); // Consume the operator.
+    const root = Ast.Factory.create(Ast.NodeType.Not);
+    root.addChild(this.parseNot(result));
+    return this.spanFrom(root, token.position);
+  }
+
   parseExpression(result: ParseResult): Ast.ExpressionNode {
+    const start = this.lexer.peekNextToken().position;
     let root = this.parseSimpleExpression(result);
     const tokenType = this.lexer.peekNextToken().type;
     if (Object.keys(BooleanOperatorMap).indexOf(tokenType.toString()) > -1) {
       const newRoot = Ast.Factory.create(BooleanOperatorMap[tokenType]);
-      this.lexer.getNextToken();
+      this.consume();
+      newRoot.addChild(root);
+      newRoot.addChild(this.parseSimpleExpression(result));
+      root = this.spanFrom(newRoot, start);
+    } else if (tokenType === TokenType.NotEqual || tokenType === TokenType.Exclamation) {
+      // Directly after dice, != is an exploding modifier, so it is only read as a comparison here.
+      if (this.consume().type === TokenType.Exclamation) { this.expectAndConsume(result, TokenType.Equals); }
+      const newRoot = Ast.Factory.create(Ast.NodeType.NotEqual);
       newRoot.addChild(root);
       newRoot.addChild(this.parseSimpleExpression(result));
-      root = newRoot;
+      root = this.spanFrom(newRoot, start);
     }
     return root;
   }
 
   parseSimpleExpression(result: ParseResult): Ast.ExpressionNode {
+    const start = this.lexer.peekNextToken().position;
     let tokenType = this.lexer.peekNextToken().type;
     if (Object.keys(AddOperatorMap).indexOf(tokenType.toString()) > -1) {
-      this.lexer.getNextToken();
+      this.consume();
     }
 
     let root = this.parseTerm(result);
@@ -53,7 +234,7 @@ export class DiceParser extends BasicParser {
     if (tokenType === TokenType.Minus) {
       const negateNode = Ast.Factory.create(Ast.NodeType.Negate);
       negateNode.addChild(root);
-      root = negateNode;
+      root = this.spanFrom(negateNode, start);
     }
 
     tokenType = this.lexer.peekNextToken().type;
@@ -62,17 +243,18 @@ export class DiceParser extends BasicParser {
       newRoot.addChild(root);
 
       // Consume the operator.
-      this.lexer.getNextToken();
+      this.consume();
 
       newRoot.addChild(this.parseTerm(result));
 
-      root = newRoot;
+      root = this.spanFrom(newRoot, start);
       tokenType = this.lexer.peekNextToken().type;
     }
     return root;
   }
 
   parseTerm(result: ParseResult): Ast.ExpressionNode {
+    const start = this.lexer.peekNextToken().position;
     let root: Ast.ExpressionNode = this.parseFactor(result);
 
     let tokenType = this.lexer.peekNextToken().type;
@@ -81,10 +263,10 @@ export class DiceParser extends BasicParser {
       newRoot.addChild(root);
 
       // Consume the operator.
-      this.lexer.getNextToken();
+      this.consume();
       newRoot.addChild(this.parseFactor(result));
 
-      root = newRoot;
+      root = this.spanFrom(newRoot, start);
       tokenType = this.lexer.peekNextToken().type;
     }
 
@@ -96,15 +278,22 @@ export class DiceParser extends BasicParser {
     const token = this.lexer.peekNextToken();
     switch (token.type) {
       case TokenType.Identifier:
-        if (token.value === 'd' || token.value === 'dF') {
+        if (token.value.toLowerCase() === 'd' || token.value.toLowerCase() === 'df') {
           root = this.parseDice(result);
         } else {
-          root = this.parseFunction(result);
+          root = this.parseIdentifier(result);
         }
         break;
+      case TokenType.At:
+        root = this.parseVariable(result);
+        break;
+      case TokenType.Error:
+        this.errorToken(result, TokenType.Number, this.consume());
+        root = this.parseFactor(result);
+        break;
       case TokenType.ParenthesisOpen:
         root = this.parseBracketedExpression(result);
-        if (this.lexer.peekNextToken().type === TokenType.Identifier) {
+        if (this.isDiceName(this.lexer.peekNextToken())) {
           root = this.parseDice(result, root);
         }
         break;
@@ -113,7 +302,7 @@ export class DiceParser extends BasicParser {
         break;
       case TokenType.Number:
         const number = this.parseNumber(result);
-        if (this.lexer.peekNextToken().type !== TokenType.Identifier) {
+        if (!this.isDiceName(this.lexer.peekNextToken())) {
           root = number;
         } else {
           root = this.parseDice(result, number);
@@ -129,13 +318,35 @@ export class DiceParser extends BasicParser {
     switch (token.type) {
       case TokenType.Number: return this.parseNumber(result);
       case TokenType.ParenthesisOpen: return this.parseBracketedExpression(result);
-      case TokenType.Identifier: return Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', Number(1));
+      case TokenType.Identifier:
+        return this.spanFrom(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', Number(1)), token.position);
       default: this.errorToken(result, TokenType.Number, token);
     }
   }
 
-  parseFunction(result: ParseResult) {
-    const functionName = this.expectAndConsume(result, TokenType.Identifier);
+  parseIdentifier(result: ParseResult): Ast.ExpressionNode {
+    const token = this.expectAndConsume(result, TokenType.Identifier);
+    if (this.lexer.peekNextToken().type === TokenType.ParenthesisOpen) {
+      return this.parseFunction(result, token);
+    }
+    const root = Ast.Factory.create(Ast.NodeType.Variable)
+      .setAttribute('name', token.value)
+      .setAttribute('external', false);
+    return this.spanFrom(root, token.position);
+  }
+
+  parseVariable(result: ParseResult): Ast.ExpressionNode {
+    const start = this.expectAndConsume(result, TokenType.At).position;
+    const token = this.expectAndConsume(result, TokenType.Identifier);
+    const root = Ast.Factory.create(Ast.NodeType.Variable)
+      .setAttribute('name', token.value)
+      .setAttribute('external', true);
+    return this.spanFrom(root, start);
+  }
+
+  parseFunction(result: ParseResult, functionName?: Token) {
+    const start = functionName ? functionName.position : this.lexer.peekNextToken().position;
+    if (!functionName) { functionName = this.expectAndConsume(result, TokenType.Identifier); }
     const root = Ast.Factory.create(Ast.NodeType.Function)
       .setAttribute('name', functionName.value);
 
@@ -144,33 +355,34 @@ export class DiceParser extends BasicParser {
     // Parse function arguments.
     const token = this.lexer.peekNextToken();
     if (token.type !== TokenType.ParenthesisClose) {
-      root.addChild(this.parseExpression(result));
+      root.addChild(this.parseConditional(result));
       while (this.lexer.peekNextToken().type === TokenType.Comma) {
-        this.lexer.getNextToken(); // Consume the comma.
-        root.addChild(this.parseExpression(result));
+        this.consume(); // Consume the comma.
+        root.addChild(this.parseConditional(result));
       }
     }
 
     this.expectAndConsume(result, TokenType.ParenthesisClose);
 
-    return root;
+    return this.spanFrom(root, start);
   }
 
   parseNumber(result: ParseResult): Ast.ExpressionNode {
-    const numberToken = this.lexer.getNextToken();
-    return Ast.Factory.create(Ast.NodeType.Number)
+    const numberToken = this.consume();
+    const root = Ast.Factory.create(Ast.NodeType.Number)
       .setAttribute('value', Number(numberToken.value));
+    return this.spanFrom(root, numberToken.position);
   }
 
   parseBracketedExpression(result: ParseResult): Ast.ExpressionNode {
-    this.lexer.getNextToken(); // Consume the opening bracket.
-    const root = this.parseExpression(result);
+    const start = this.consume().position; // Consume the opening bracket.
+    const root = this.parseConditional(result);
     this.expectAndConsume(result, TokenType.ParenthesisClose);
-    return root;
+    return this.spanFrom(root, start);
   }
 
   parseGroup(result: ParseResult): Ast.ExpressionNode {
-    this.lexer.getNextToken(); // Consume the opening brace.
+    const start = this.consume().position; // Consume the opening brace.
     const root = Ast.Factory.create(Ast.NodeType.Group);
 
     // Parse group elements.
@@ -178,7 +390,7 @@ export class DiceParser extends BasicParser {
     if (token.type !== TokenType.BraceClose) {
       do {
         if (this.lexer.peekNextToken().type === TokenType.Comma) {
-          this.lexer.getNextToken(); // Consume the comma.
+          this.consume(); // Consume the comma.
         }
         let exp = this.parseExpression(result);
         if (this.lexer.peekNextToken().type === TokenType.Ellipsis) {
@@ -189,15 +401,15 @@ export class DiceParser extends BasicParser {
     }
 
     this.expectAndConsume(result, TokenType.BraceClose);
-    return this.parseGroupModifiers(result, root);
+    return this.parseGroupModifiers(result, this.spanFrom(root, start));
   }
 
   parseRepeat(result: ParseResult, lhs: Ast.ExpressionNode): Ast.ExpressionNode {
-    this.lexer.getNextToken(); // Consume the ellipsis.
+    const start = this.startOf(lhs, this.consume().position); // Consume the ellipsis.
     const root = Ast.Factory.create(Ast.NodeType.Repeat);
     root.addChild(lhs);
     root.addChild(this.parseExpression(result));
-    return root;
+    return this.spanFrom(root, start);
   }
 
   parseDice(result: ParseResult, rollTimes?: Ast.ExpressionNode): Ast.ExpressionNode {
@@ -207,27 +419,87 @@ export class DiceParser extends BasicParser {
   }
 
   parseDiceRoll(result: ParseResult, rollTimes?: Ast.ExpressionNode): Ast.ExpressionNode {
+    const start = this.startOf(rollTimes, this.lexer.peekNextToken().position);
     if (!rollTimes) { rollTimes = this.parseSimpleFactor(result); }
     const token = this.expectAndConsume(result, TokenType.Identifier);
 
     const root: Ast.ExpressionNode = Ast.Factory.create(Ast.NodeType.Dice);
     root.addChild(rollTimes);
 
-    switch (token.value) {
-      case 'd':{
+    switch (token.value.toLowerCase()) {
+      case 'd': {
+        const next = this.lexer.peekNextToken();
+        if (next.type === TokenType.BraceOpen) {
+          root.addChild(this.parseDiceFaces(result));
+          break;
+        }
+        if (next.type === TokenType.Percent || next.value === '00') {
+          root.addChild(this.parsePercentileSides(result));
+          break;
+        }
         const sidesToken = this.expectAndConsume(result, TokenType.Number);
-        root.addChild(Ast.Factory.create(Ast.NodeType.DiceSides))
+        root.addChild(this.spanFrom(Ast.Factory.create(Ast.NodeType.DiceSides), sidesToken.position))
           ?.setAttribute('value', Number(sidesToken.value));
         break;
       }
-      case 'dF':{
-        root.addChild(Ast.Factory.create(Ast.NodeType.DiceSides))
+      case 'df': {
+        root.addChild(this.spanFrom(Ast.Factory.create(Ast.NodeType.DiceSides), token.position + 1))
           ?.setAttribute('value', 'fate');
         break;
-      }    
+      }
+      default: {
+        // Any other name straight after the d is a custom die registered under that name, such as 2dBoost.
+        if (token.value.length > 1 && token.value[0].toLowerCase() === 'd') {
+          root.addChild(this.spanFrom(Ast.Factory.create(Ast.NodeType.DiceSides), token.position + 1))
+            ?.setAttribute('name', token.value.substring(1));
+        } else {
+          this.errorMessage(result, `Unknown dice type ${token.value}. Must be (d|dF|d{...}) or a registered dice name.`, token);
+        }
+      }
     }
 
-    return root;
+    return this.spanFrom(root, start);
+  }
+
+  parseDiceFaces(result: ParseResult): Ast.ExpressionNode {
+    const start = this.expectAndConsume(result, TokenType.BraceOpen).position;
+    const faces: number[] = [];
+    do {
+      if (this.lexer.peekNextToken().type === TokenType.Comma) {
+        this.consume(); // Consume the comma.
+      }
+      const negative = this.lexer.peekNextToken().type === TokenType.Minus;
+      if (negative) { this.consume(); }
+      const token = this.expectAndConsume(result, TokenType.Number);
+      faces.push(negative ? -Number(token.value) : Number(token.value));
+    } while (this.lexer.peekNextToken().type === TokenType.Comma);
+    this.expectAndConsume(result, TokenType.BraceClose);
+    return this.spanFrom(Ast.Factory.create(Ast.NodeType.DiceSides).setAttribute('values', faces), start);
+  }
+
+  parsePercentileSides(result: ParseResult): Ast.ExpressionNode {
+    const token = this.consume(); // Consume the % or 00.
+    const root = Ast.Factory.create(Ast.NodeType.DiceSides)
+      .setAttribute('value', 100)
+      .setAttribute('percentile', token.value);
+
+    // Bonus and penalty dice, such as d%b2 or d%p1.
+    const modifier = this.lexer.peekNextToken();
+    const type = modifier.value.toLowerCase();
+    if (modifier.type === TokenType.Identifier && (type === 'b' || type === 'p')) {
+      this.consume();
+      const count = this.lexer.peekNextToken().type === TokenType.Number ? Number(this.consume().value) : 1;
+      root.setAttribute(type === 'b' ? 'bonus' : 'penalty', count);
+    }
+    return this.spanFrom(root, token.position);
+  }
+
+  // A number written straight into the expression, which may be negative.
+  parseThreshold(result: ParseResult): number {
+    const negative = this.lexer.peekNextToken().type === TokenType.Minus;
+    if (negative) { this.consume(); }
+    const value = Number(this.expectAndConsume(result, TokenType.Number).value);
+    return negative ? -value : value;
   }
 
   parseExplode(result: ParseResult, lhs?: Ast.ExpressionNode): Ast.ExpressionNode {
@@ -237,19 +509,19 @@ export class DiceParser extends BasicParser {
 
     if (lhs) { root.addChild(lhs); }
 
-    this.lexer.getNextToken();
+    const start = this.startOf(lhs, this.consume().position);
 
     let token = this.lexer.peekNextToken();
     if (token.type === TokenType.Exclamation) {
       root.setAttribute('compound', true);
-      this.lexer.getNextToken(); // Consume second !.
+      this.consume(); // Consume second !.
     }
 
     token = this.lexer.peekNextToken();
     if (token.type === TokenType.Identifier) {
-      if (token.value === 'p') {
+      if (token.value.toLowerCase() === 'p') {
         root.setAttribute('penetrate', true);
-        this.lexer.getNextToken(); // Consume p.
+        this.consume(); // Consume p.
       }
     }
 
@@ -257,7 +529,7 @@ export class DiceParser extends BasicParser {
     if (Object.keys(BooleanOperatorMap).indexOf(tokenType.toString()) > -1) {
       root.addChild(this.parseCompareModifier(result));
     }
-    return root;
+    return this.spanFrom(root, start);
   }
 
   parseCritical(result: ParseResult, lhs?: Ast.ExpressionNode): Ast.ExpressionNode {
@@ -267,7 +539,7 @@ export class DiceParser extends BasicParser {
 
     const token = this.lexer.peekNextToken();
     if (token.type === TokenType.Identifier) {
-      switch (token.value) {
+      switch (token.value.toLowerCase()) {
         case 'c': root.setAttribute('type', 'success'); break;
         case 'cs': root.setAttribute('type', 'success'); break;
         case 'cf': root.setAttribute('type', 'failure'); break;
@@ -275,13 +547,13 @@ export class DiceParser extends BasicParser {
       }
     }
 
-    this.lexer.getNextToken();
+    this.consume();
 
     const tokenType = this.lexer.peekNextToken().type;
     if (Object.keys(BooleanOperatorMap).indexOf(tokenType.toString()) > -1) {
       root.addChild(this.parseCompareModifier(result));
     }
-    return root;
+    return this.spanFrom(root, this.startOf(lhs, token.position));
   }
 
   parseKeep(result: ParseResult, lhs?: Ast.ExpressionNode): Ast.ExpressionNode {
@@ -291,7 +563,7 @@ export class DiceParser extends BasicParser {
 
     const token = this.lexer.peekNextToken();
     if (token.type === TokenType.Identifier) {
-      switch (token.value) {
+      switch (token.value.toLowerCase()) {
         case 'k': root.setAttribute('type', 'highest'); break;
         case 'kh': root.setAttribute('type', 'highest'); break;
         case 'kl': root.setAttribute('type', 'lowest'); break;
@@ -299,15 +571,16 @@ export class DiceParser extends BasicParser {
       }
     }
 
-    this.lexer.getNextToken(); // Consume.
+    this.consume(); // Consume.
 
     const tokenType = this.lexer.peekNextToken().type;
     if (tokenType === TokenType.Number || tokenType === TokenType.ParenthesisOpen) {
       root.addChild(this.parseSimpleFactor(result));
     } else {
-      root.addChild(Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 1));
+      const count = Ast.Factory.create(Ast.NodeType.Number).setAttribute('value', 1);
+      root.addChild(this.spanFrom(count, token.position + token.value.length));
     }
-    return root;
+    return this.spanFrom(root, this.startOf(lhs, token.position));
   }
 
   parseDrop(result: ParseResult, lhs?: Ast.ExpressionNode): Ast.ExpressionNode {
@@ -317,7 +590,7 @@ export class DiceParser extends BasicParser {
 
     const token = this.lexer.peekNextToken();
     if (token.type === TokenType.Identifier) {
-      switch (token.value) {
+      switch (token.value.toLowerCase()) {
         case 'd': root.setAttribute('type', 'lowest'); break;
         case 'dh': root.setAttribute('type', 'highest'); break;
         case 'dl': root.setAttribute('type', 'lowest'); break;
@@ -325,13 +598,13 @@ export class DiceParser extends BasicParser {
       }
     }
 
-    this.lexer.getNextToken(); // Consume.
+    this.consume(); // Consume.
 
     const tokenType = this.lexer.peekNextToken().type;
     if (tokenType === TokenType.Number || tokenType === TokenType.ParenthesisOpen) {
       root.addChild(this.parseSimpleFactor(result));
     }
-    return root;
+    return this.spanFrom(root, this.startOf(lhs, token.position));
   }
 
   parseReroll(result: ParseResult, lhs?: Ast.ExpressionNode): Ast.ExpressionNode {
@@ -341,19 +614,43 @@ export class DiceParser extends BasicParser {
 
     const token = this.lexer.peekNextToken();
     if (token.type === TokenType.Identifier) {
-      switch (token.value) {
+      switch (token.value.toLowerCase()) {
         case 'r': root.setAttribute('once', false); break;
         case 'ro': root.setAttribute('once', true); break;
         default: this.errorMessage(result, `Unknown drop type ${token.value}. Must be (r|ro).`, token);
       }
     }
-    this.lexer.getNextToken(); // Consume.
+    this.consume(); // Consume.
 
     const tokenType = this.lexer.peekNextToken().type;
     if (Object.keys(BooleanOperatorMap).indexOf(tokenType.toString()) > -1) {
       root.addChild(this.parseCompareModifier(result));
     }
-    return root;
+    return this.spanFrom(root, this.startOf(lhs, token.position));
+  }
+
+  // Success pool modifiers: faces that count twice (t), subtract a success (f) or can glitch (g).
+  parsePool(result: ParseResult, lhs?: Ast.ExpressionNode): Ast.ExpressionNode {
+    const root = Ast.Factory.create(Ast.NodeType.Pool);
+    root.setAttribute('type', 'double');
+    if (lhs) { root.addChild(lhs); }
+
+    const token = this.lexer.peekNextToken();
+    if (token.type === TokenType.Identifier) {
+      switch (token.value.toLowerCase()) {
+        case 't': root.setAttribute('type', 'double'); break;
+        case 'f': root.setAttribute('type', 'subtract'); break;
+        case 'g': root.setAttribute('type', 'glitch'); break;
+        default: this.errorMessage(result, `Unknown pool type ${token.value}. Must be (t|f|g).`, token);
+      }
+    }
+    this.consume();
+
+    const tokenType = this.lexer.peekNextToken().type;
+    if (tokenType === TokenType.Number || Object.keys(BooleanOperatorMap).indexOf(tokenType.toString()) > -1) {
+      root.addChild(this.parseCompareModifier(result));
+    }
+    return this.spanFrom(root, this.startOf(lhs, token.position));
   }
 
   parseSort(result: ParseResult, lhs?: Ast.ExpressionNode): Ast.ExpressionNode {
@@ -363,16 +660,16 @@ export class DiceParser extends BasicParser {
 
     const token = this.lexer.peekNextToken();
     if (token.type === TokenType.Identifier) {
-      switch (token.value) {
+      switch (token.value.toLowerCase()) {
         case 's': root.setAttribute('direction', 'ascending'); break;
         case 'sa': root.setAttribute('direction', 'ascending'); break;
         case 'sd': root.setAttribute('direction', 'descending'); break;
         default: this.errorMessage(result, `Unknown sort type ${token.value}. Must be (s|sa|sd).`, token);
       }
     }
-    this.lexer.getNextToken(); // Consume.
+    this.consume(); // Consume.
 
-    return root;
+    return this.spanFrom(root, this.startOf(lhs, token.position));
   }
 
   parseCompareModifier(result: ParseResult, lhs?: Ast.ExpressionNode): Ast.ExpressionNode {
@@ -382,13 +679,44 @@ export class DiceParser extends BasicParser {
       root = Ast.Factory.create(Ast.NodeType.Equal);
     } else if (Object.keys(BooleanOperatorMap).indexOf(token.type.toString()) > -1) {
       root = Ast.Factory.create(BooleanOperatorMap[token.type]);
-      this.lexer.getNextToken();
+      this.consume();
     } else {
       this.errorToken(result, TokenType.Number, token);
     }
     if (lhs) { root.addChild(lhs); }
     root.addChild(this.parseSimpleFactor(result));
-    return root;
+    return this.spanFrom(root, this.startOf(lhs, token.position));
+  }
+
+  // Outcome bands only describe the whole roll, so inside brackets, bindings or macros they are reported and skipped.
+  protected expect(result: ParseResult, expected: TokenType, actual?: Token): Token {
+    if (actual || expected === TokenType.Identifier) { return super.expect(result, expected, actual); }
+    const token = this.lexer.peekNextToken();
+    if (this.isBands(token)) {
+      this.errorMessage(result, 'Outcome bands must end the expression.', token);
+      this.parseBands(result);
+      return super.expect(result, expected);
+    }
+    if (this.isBandsTarget(token)) {
+      this.errorMessage(result, `Missing outcome bands before ${token.value}.`, token);
+      this.consume();
+      this.parseThreshold(result);
+      return super.expect(result, expected);
+    }
+    return super.expect(result, expected);
+  }
+
+  // The bands keyword ends the expression, so it is never read as dice or a modifier.
+  private isBands(token: Token): boolean {
+    return token.type === TokenType.Identifier && token.value === 'bands';
+  }
+
+  private isBandsTarget(token: Token): boolean {
+    return token.type === TokenType.Identifier && (token.value === 'over' || token.value === 'under');
+  }
+
+  private isDiceName(token: Token): boolean {
+    return token.type === TokenType.Identifier && !this.isBands(token) && !this.isBandsTarget(token);
   }
 
   private parseDiceModifiers(result: ParseResult, root: Ast.ExpressionNode) {
@@ -396,13 +724,16 @@ export class DiceParser extends BasicParser {
       const token: Token = this.lexer.peekNextToken();
       if (Object.keys(BooleanOperatorMap).indexOf(token.type.toString()) > -1) {
         root = this.parseCompareModifier(result, root);
-      } else if (token.type === TokenType.Identifier) {
-        switch (token.value[0]) {
+      } else if (this.isDiceName(token)) {
+        switch (token.value[0].toLowerCase()) {
           case 'c': root = this.parseCritical(result, root); break;
           case 'd': root = this.parseDrop(result, root); break;
+          case 'f': root = this.parsePool(result, root); break;
+          case 'g': root = this.parsePool(result, root); break;
           case 'k': root = this.parseKeep(result, root); break;
           case 'r': root = this.parseReroll(result, root); break;
           case 's': root = this.parseSort(result, root); break;
+          case 't': root = this.parsePool(result, root); break;
           default:
             this.errorToken(result, TokenType.Identifier, token);
             return root;
@@ -419,8 +750,8 @@ export class DiceParser extends BasicParser {
       const token = this.lexer.peekNextToken();
       if (Object.keys(BooleanOperatorMap).indexOf(token.type.toString()) > -1) {
         root = this.parseCompareModifier(result, root);
-      } else if (token.type === TokenType.Identifier) {
-        switch (token.value[0]) {
+      } else if (this.isDiceName(token)) {
+        switch (token.value[0].toLowerCase()) {
           case 'd': root = this.parseDrop(result, root); break;
           case 'k': root = this.parseKeep(result, root); break;
           case 's': root = this.parseSort(result, root); break;
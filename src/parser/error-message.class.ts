@@ -1,5 +1,10 @@
+import { SourceSpan } from '../ast/index.ts';
 import { Token } from '../lexer/index.ts';
 
 export class ParserError {
-  constructor(public message: string, public token: Token, public stackTrace: string) { }
+  readonly span: SourceSpan;
+
+  constructor(public message: string, public token: Token, public stackTrace: string) {
+    this.span = new SourceSpan(token.position, token.position + token.value.length);
+  }
 }
@@ -2,6 +2,7 @@ import * as Ast from '../ast/index.ts';
 import { ParserError } from './error-message.class.ts';
 
 export class ParseResult {
-  root?: Ast.ExpressionNode;
+  // Always set by parse(), even when there are errors. Input without an expression gets a 0 in its place.
+  root!: Ast.ExpressionNode;
   errors: ParserError[] = [];
 }
@@ -1,2 +1,6 @@
 export * from './default-random-provider.class.ts';
+export * from './random-draw.interface.ts';
 export * from './random-provider.class.ts';
+export * from './recording-random-provider.class.ts';
+export * from './replay-random-provider.class.ts';
+export * from './seeded-random-provider.class.ts';
@@ -0,0 +1,5 @@
+export interface RandomDraw {
+  min: number;
+  max: number;
+  value: number;
+}
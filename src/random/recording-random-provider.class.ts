@@ -0,0 +1,22 @@
+import { DefaultRandomProvider } from './default-random-provider.class.ts';
+import { RandomDraw } from './random-draw.interface.ts';
+import { RandomProvider } from './random-provider.class.ts';
+
+export class RecordingRandomProvider implements RandomProvider {
+  readonly draws: RandomDraw[] = [];
+  protected random: RandomProvider;
+
+  constructor(random?: RandomProvider) {
+    this.random = random || new DefaultRandomProvider();
+  }
+
+  numberBetween(min: number, max: number) {
+    const value = this.random.numberBetween(min, max);
+    this.draws.push({ min, max, value });
+    return value;
+  }
+
+  clear() {
+    this.draws.length = 0;
+  }
+}
@@ -0,0 +1,25 @@
+import { RandomDraw } from './random-draw.interface.ts';
+import { RandomProvider } from './random-provider.class.ts';
+
+export class ReplayRandomProvider implements RandomProvider {
+  private index = 0;
+
+  constructor(protected readonly draws: RandomDraw[]) { }
+
+  get remaining(): number {
+    return this.draws.length - this.index;
+  }
+
+  numberBetween(min: number, max: number) {
+    if (this.index >= this.draws.length) {
+      throw new Error(`Replay requested draw ${this.index + 1}, but only ${this.draws.length} were recorded.`);
+    }
+    const draw = this.draws[this.index];
+    if (draw.min !== min || draw.max !== max) {
+      throw new Error(`Replay draw ${this.index + 1} was recorded between ${draw.min} and ${draw.max}, `
+        + `but was requested between ${min} and ${max}.`);
+    }
+    this.index++;
+    return draw.value;
+  }
+}
@@ -0,0 +1,76 @@
+import { RandomProvider } from './random-provider.class.ts';
+
+const UINT32_RANGE = 0x100000000;
+
+/* tslint:disable:no-bitwise */
+/**
+ * A xoshiro128** generator. The same seed, or a state taken from getState(),
+ * always produces the same sequence of numbers.
+ */
+export class SeededRandomProvider implements RandomProvider {
+  readonly seed: number;
+  private state: Uint32Array = new Uint32Array(4);
+
+  constructor(seed?: number) {
+    this.seed = seed === undefined ? Math.floor(Math.random() * UINT32_RANGE) : seed >>> 0;
+    // Expand the seed with splitmix32 so that similar seeds give unrelated states.
+    let x = this.seed;
+    for (let i = 0; i < 4; i++) {
+        x = (x + 0x9e3779b9) >>> 0;
+      let z = x;
+        z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+        z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+        this.state[i] = z ^ (z >>> 16);
+    }
+  }
+
+  static fromState(state: number[]): SeededRandomProvider {
+    const random = new SeededRandomProvider(0);
+    random.setState(state);
+    return random;
+  }
+
+  getState(): number[] {
+    return Array.from(this.state);
+  }
+
+  setState(state: number[]) {
+    if (state.length !== 4 || state.every(value => (value >>> 0) === 0)) {
+      throw new Error('Random state must be four 32-bit integers that are not all zero.');
+    }
+    state.forEach((value, i) => this.state[i] = value);
+  }
+
+  next(): number {
+    const s = this.state;
+    const result = Math.imul(this.rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = this.rotl(s[3], 11);
+    return result;
+  }
+
+  numberBetween(min: number, max: number) {
+    const range = max - min + 1;
+    // An empty range, as in 1d0, gives min the same way DefaultRandomProvider does.
+    if (range <= 0) { return min; }
+    if (range > UINT32_RANGE) {
+        const fraction = (this.next() * 0x200000 + (this.next() >>> 11)) / 0x20000000000000;
+      return Math.floor(fraction * range + min);
+    }
+    // Reject the top of the range that would make some values more likely than others.
+    const limit = UINT32_RANGE - UINT32_RANGE % range;
+    let value = this.next();
+    while (value >= limit) { value = this.next(); }
+    return min + value % range;
+  }
+
+  private rotl(value: number, bits: number): number {
+    return (value << bits) | (value >>> (32 - bits));
+  }
+}
+/* tslint:enable:no-bitwise */
@@ -0,0 +1,64 @@
+import { ExpressionNode } from '../ast/index.ts';
+import { DiceInterpreter } from '../interpreter/dice-interpreter.class.ts';
+import { InterpreterError } from '../interpreter/error-message.class.ts';
+import { SimulationOptions } from './simulation-options.interface.ts';
+import { SimulationResult } from './simulation-result.class.ts';
+import { SimulationStatistic } from './simulation-statistic.interface.ts';
+
+class RunningStatistic {
+  private count = 0;
+  private sum = 0;
+  private sumOfSquares = 0;
+
+  add(value: number) {
+    this.count++;
+    this.sum += value;
+    this.sumOfSquares += value * value;
+  }
+
+  toStatistic(z: number): SimulationStatistic {
+    const mean = this.count ? this.sum / this.count : 0;
+    const variance = this.count > 1 ? Math.max(0, (this.sumOfSquares - this.count * mean * mean) / (this.count - 1)) : 0;
+    const standardDeviation = Math.sqrt(variance);
+    const standardError = this.count ? standardDeviation / Math.sqrt(this.count) : 0;
+    return { mean, standardDeviation, standardError, interval: [mean - z * standardError, mean + z * standardError] };
+  }
+}
+
+// The z score that leaves the given probability in the upper tail of a normal distribution (Abramowitz and Stegun 26.2.23).
+function upperTailQuantile(p: number): number {
+  const t = Math.sqrt(-2 * Math.log(p));
+  return t - (2.515517 + 0.802853 * t + 0.010328 * t * t) / (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+}
+
+export class DiceSimulator {
+  protected interpreter: DiceInterpreter;
+
+  constructor(interpreter: DiceInterpreter) {
+    this.interpreter = interpreter;
+  }
+
+  simulate(expression: ExpressionNode, options?: SimulationOptions): SimulationResult {
+    const { trials = 10000, confidence = 0.95, variables } = options || {};
+    const counts = new Map<number, number>();
+    const total = new RunningStatistic();
+    const successes = new RunningStatistic();
+    const failures = new RunningStatistic();
+    let errors: InterpreterError[] = [];
+
+    for (let x = 0; x < trials; x++) {
+      const trialErrors: InterpreterError[] = [];
+      const exp = expression.copy();
+      const value = this.interpreter.evaluateRoot(exp, trialErrors, variables);
+      counts.set(value, (counts.get(value) || 0) + 1);
+      total.add(value);
+      successes.add(this.interpreter.countSuccesses(exp, trialErrors));
+      failures.add(this.interpreter.countFailures(exp, trialErrors));
+      // Every trial tends to fail the same way, so only the first problem is kept.
+      if (trialErrors.length && !errors.length) { errors = trialErrors; }
+    }
+
+    const z = upperTailQuantile((1 - confidence) / 2);
+    return new SimulationResult(expression, counts, total.toStatistic(z), successes.toStatistic(z), failures.toStatistic(z), errors);
+  }
+}
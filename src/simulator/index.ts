@@ -0,0 +1,4 @@
+export * from './dice-simulator.class.ts';
+export * from './simulation-options.interface.ts';
+export * from './simulation-result.class.ts';
+export * from './simulation-statistic.interface.ts';
@@ -0,0 +1,10 @@
+import { VariableContext } from '../interpreter/variable-context.interface.ts';
+import { RandomProvider } from '../random/random-provider.class.ts';
+
+export interface SimulationOptions {
+  trials?: number;
+  confidence?: number;
+  seed?: number;
+  random?: RandomProvider;
+  variables?: VariableContext;
+}
@@ -0,0 +1,52 @@
+import { Distribution } from '../analyzer/distribution.class.ts';
+import { ExpressionNode } from '../ast/index.ts';
+import { InterpreterError } from '../interpreter/error-message.class.ts';
+import { ParserError } from '../parser/error-message.class.ts';
+import { SimulationStatistic } from './simulation-statistic.interface.ts';
+
+export class SimulationResult {
+  readonly expression: ExpressionNode;
+  readonly trials: number;
+  readonly histogram: Array<[number, number]>;
+  readonly distribution: Distribution;
+  readonly total: SimulationStatistic;
+  readonly successes: SimulationStatistic;
+  readonly failures: SimulationStatistic;
+  readonly mean: number;
+  readonly standardDeviation: number;
+  readonly min: number;
+  readonly max: number;
+  readonly errors: Array<InterpreterError | ParserError>;
+
+  constructor(
+    expression: ExpressionNode,
+    counts: Map<number, number>,
+    total: SimulationStatistic,
+    successes: SimulationStatistic,
+    failures: SimulationStatistic,
+    errors: Array<InterpreterError | ParserError>
+  ) {
+    this.expression = expression;
+    this.histogram = Array.from(counts.entries()).sort((a, b) => a[0] - b[0]);
+    this.trials = this.histogram.reduce((trials, [, count]) => trials + count, 0);
+    const probabilities = new Map<number, number>();
+    this.histogram.forEach(([value, count]) => probabilities.set(value, count / this.trials));
+    this.distribution = new Distribution(probabilities);
+    this.total = total;
+    this.successes = successes;
+    this.failures = failures;
+    this.mean = total.mean;
+    this.standardDeviation = total.standardDeviation;
+    this.min = this.distribution.min;
+    this.max = this.distribution.max;
+    this.errors = errors;
+  }
+
+  probability(total: number): number {
+    return this.distribution.probability(total);
+  }
+
+  percentile(percent: number): number {
+    return this.distribution.percentile(percent);
+  }
+}
@@ -0,0 +1,6 @@
+export interface SimulationStatistic {
+  mean: number;
+  standardDeviation: number;
+  standardError: number;
+  interval: [number, number];
+}
@@ -0,0 +1,26 @@
+import { SymbolRules } from './symbol-rules.interface.ts';
+import { SymbolicDiceList } from './symbolic-dice-list.interface.ts';
+
+// The narrative dice of the Genesys system, rolled as 2dA + 1dP + 2dD.
+export const GenesysDice: SymbolicDiceList = {
+  // Boost
+  B: [[], [], ['success'], ['success', 'advantage'], ['advantage', 'advantage'], ['advantage']],
+  // Setback
+  S: [[], [], ['failure'], ['failure'], ['threat'], ['threat']],
+  // Ability
+  A: [[], ['success'], ['success'], ['success', 'success'], ['advantage'], ['advantage'], ['success', 'advantage'],
+    ['advantage', 'advantage']],
+  // Difficulty
+  D: [[], ['failure'], ['failure', 'failure'], ['threat'], ['threat'], ['threat'], ['threat', 'threat'], ['failure', 'threat']],
+  // Proficiency
+  P: [[], ['success'], ['success'], ['success', 'success'], ['success', 'success'], ['advantage'], ['success', 'advantage'],
+    ['success', 'advantage'], ['success', 'advantage'], ['advantage', 'advantage'], ['advantage', 'advantage'], ['triumph']],
+  // Challenge
+  C: [[], ['failure'], ['failure'], ['failure', 'failure'], ['failure', 'failure'], ['threat'], ['threat'], ['failure', 'threat'],
+    ['failure', 'threat'], ['threat', 'threat'], ['threat', 'threat'], ['despair']],
+};
+
+export const GenesysSymbolRules: SymbolRules = {
+  implies: { triumph: ['success'], despair: ['failure'] },
+  cancels: [['success', 'failure'], ['advantage', 'threat']],
+};
@@ -0,0 +1,5 @@
+export * from './genesys-dice.ts';
+export * from './symbol-counts.interface.ts';
+export * from './symbol-result.class.ts';
+export * from './symbol-rules.interface.ts';
+export * from './symbolic-dice-list.interface.ts';
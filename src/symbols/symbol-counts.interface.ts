@@ -0,0 +1,3 @@
+export interface SymbolCounts {
+  [symbol: string]: number;
+}
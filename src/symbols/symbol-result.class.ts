@@ -0,0 +1,27 @@
+import { SymbolCounts } from './symbol-counts.interface.ts';
+import { SymbolRules } from './symbol-rules.interface.ts';
+
+export class SymbolResult {
+  readonly rolled: SymbolCounts;
+  readonly net: SymbolCounts;
+
+  constructor(rolled: SymbolCounts, rules: SymbolRules = {}) {
+    this.rolled = rolled;
+    const net: SymbolCounts = { ...rolled };
+    const implies = rules.implies || {};
+    Object.keys(rolled).forEach(symbol => {
+      (implies[symbol] || []).forEach(implied => { net[implied] = (net[implied] || 0) + rolled[symbol]; });
+    });
+    (rules.cancels || []).forEach(([first, second]) => {
+      const cancelled = Math.min(net[first] || 0, net[second] || 0);
+      if (net[first] !== undefined) { net[first] -= cancelled; }
+      if (net[second] !== undefined) { net[second] -= cancelled; }
+    });
+    Object.keys(net).forEach(symbol => { if (!net[symbol]) { delete net[symbol]; } });
+    this.net = net;
+  }
+
+  count(symbol: string): number {
+    return this.net[symbol] || 0;
+  }
+}
@@ -0,0 +1,6 @@
+export interface SymbolRules {
+  // Symbols that also count as other symbols, such as a triumph counting as a success.
+  implies?: { [symbol: string]: string[] };
+  // Pairs of symbols that cancel each other out one for one.
+  cancels?: Array<[string, string]>;
+}
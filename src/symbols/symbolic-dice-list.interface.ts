@@ -0,0 +1,4 @@
+// Each die is a list of faces, and each face the symbols printed on it. A blank face is an empty list.
+export interface SymbolicDiceList {
+  [name: string]: string[][];
+}